@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { cancelJob, deleteJobSource } from '@/lib/job-actions';
+import { cancelRenderWorkflow } from '@/lib/trigger';
+import {
+  InvalidJobTransitionError,
+  JobAccessDeniedError,
+  JobNotFoundError,
+  JobRecord,
+  toJobStatusResponse,
+} from '@/shared/jobs';
+import { getClientIP } from '@/shared/utils';
+
+// The uploaded source is the user's own file, so it is only removed on request
+async function deleteSource(job: JobRecord): Promise<void> {
+  try {
+    await deleteJobSource(job);
+  } catch (error) {
+    console.error('Failed to delete cancelled job source:', error);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    const job = await cancelJob(jobId, getClientIP(request));
+
+    // The job is already cancelled; failures below only leave work or files behind.
+    // The workflow deletes its outputs and checkpoints once the run has stopped.
+    if (job.triggerRunId) {
+      await cancelRenderWorkflow(job.triggerRunId);
+    }
+
+    if (request.nextUrl.searchParams.get('deleteSource') === 'true') {
+      await deleteSource(job);
+    }
+
+    return NextResponse.json(toJobStatusResponse(job));
+  } catch (error) {
+    if (error instanceof JobNotFoundError) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+    if (error instanceof JobAccessDeniedError) {
+      return NextResponse.json(
+        { error: 'Job belongs to another client' },
+        { status: 403 }
+      );
+    }
+    if (error instanceof InvalidJobTransitionError) {
+      return NextResponse.json(
+        { error: `Job is already ${error.from}` },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error cancelling job:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    );
+  }
+}
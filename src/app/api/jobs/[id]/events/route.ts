@@ -1,36 +1,110 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-// Define event schema type
-interface JobEvent {
-  id: string;
-  type: string;
-  timestamp: Date;
-  data?: Record<string, any>;
+import {
+  applyStepEvent,
+  getJobStore,
+  isCallbackTimestampFresh,
+  InvalidJobTransitionError,
+  isStepEvent,
+  JOB_CALLBACK_SIGNATURE_HEADER,
+  JobNotFoundError,
+  StepEvent,
+  verifyCallbackSignature,
+} from '@/shared/jobs';
+
+type SignedEventResult =
+  | { event: StepEvent; error?: undefined }
+  | { event?: undefined; error: NextResponse };
+
+function parseStepEvent(body: string): StepEvent | null {
+  try {
+    const parsed: unknown = JSON.parse(body);
+    return isStepEvent(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
 }
 
-// Simple in-memory events store (for now)
-const jobEventsStore = new Map<string, JobEvent[]>();
+// Authenticate a workflow callback: HMAC over the raw body plus a fresh timestamp
+async function readSignedEvent(request: NextRequest): Promise<SignedEventResult> {
+  const secret = process.env.JOB_CALLBACK_SECRET;
+  if (!secret) {
+    return { error: NextResponse.json({ error: 'Job callbacks are not configured' }, { status: 503 }) };
+  }
+
+  const body = await request.text();
+  const signature = request.headers.get(JOB_CALLBACK_SIGNATURE_HEADER);
+  if (!verifyCallbackSignature(body, signature, secret)) {
+    return { error: NextResponse.json({ error: 'Invalid signature' }, { status: 401 }) };
+  }
+
+  const event = parseStepEvent(body);
+  if (!event) {
+    return { error: NextResponse.json({ error: 'Invalid event payload' }, { status: 400 }) };
+  }
+  if (!isCallbackTimestampFresh(event.timestamp)) {
+    return { error: NextResponse.json({ error: 'Stale event timestamp' }, { status: 401 }) };
+  }
+
+  return { event };
+}
 
 export async function GET(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const jobId = params.id;
-
-    // Initialize empty events array for this job if it doesn't exist
-    if (!jobEventsStore.has(jobId)) {
-      jobEventsStore.set(jobId, []);
-    }
-
-    const events = jobEventsStore.get(jobId) || [];
+    const { id: jobId } = await params;
+    const events = await getJobStore().listEvents(jobId);
 
     return NextResponse.json(events);
   } catch (error) {
+    if (error instanceof JobNotFoundError) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
     console.error('Error fetching job events:', error);
     return NextResponse.json(
       { error: 'Failed to fetch job events' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    const { event, error } = await readSignedEvent(request);
+    if (error) {
+      return error;
+    }
+
+    const jobEvent = await applyStepEvent(getJobStore(), jobId, event);
+    return NextResponse.json(jobEvent, { status: 201 });
+  } catch (error) {
+    if (error instanceof JobNotFoundError) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+    if (error instanceof InvalidJobTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error recording job event:', error);
+    return NextResponse.json(
+      { error: 'Failed to record job event' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resumeJob } from '@/lib/job-actions';
+import { triggerRenderWorkflow } from '@/lib/trigger';
+import {
+  getJobStore,
+  InvalidJobTransitionError,
+  JobAccessDeniedError,
+  JobLimitExceededError,
+  JobNotFoundError,
+  toJobStatusResponse,
+} from '@/shared/jobs';
+import { getClientIP } from '@/shared/utils';
+
+function toErrorResponse(error: unknown): NextResponse {
+  if (error instanceof JobNotFoundError) {
+    return NextResponse.json(
+      { error: 'Job not found' },
+      { status: 404 }
+    );
+  }
+  if (error instanceof JobAccessDeniedError) {
+    return NextResponse.json(
+      { error: 'Job belongs to another client' },
+      { status: 403 }
+    );
+  }
+  if (error instanceof InvalidJobTransitionError) {
+    return NextResponse.json(
+      { error: `Only failed jobs can be resumed; job is ${error.from}` },
+      { status: 409 }
+    );
+  }
+  if (error instanceof JobLimitExceededError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: 429 }
+    );
+  }
+
+  console.error('Error resuming job:', error);
+  return NextResponse.json(
+    { error: 'Failed to resume job' },
+    { status: 500 }
+  );
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    const { job, resumeCount } = await resumeJob(jobId, getClientIP(request));
+
+    // A fresh idempotency key per resume; the original run's key is already used
+    const { runId, error } = await triggerRenderWorkflow(
+      {
+        jobId,
+        r2Key: job.r2Key,
+        targetLangs: job.targetLangs,
+        sourceLang: job.sourceLang,
+        sttProvider: job.sttProvider,
+        renderMode: job.renderMode,
+        captionStyle: job.captionStyle,
+      },
+      `${jobId}:resume:${resumeCount}`
+    );
+
+    if (error) {
+      await getJobStore().updateJob(jobId, { status: 'failed', reason: error });
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    const resumed = await getJobStore().updateJob(jobId, { triggerRunId: runId });
+    return NextResponse.json(toJobStatusResponse(resumed));
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
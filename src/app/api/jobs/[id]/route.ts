@@ -1,41 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-// Simple in-memory job status store (for now)
-const jobStatusStore = new Map<string, {
-  status: 'queued' | 'running' | 'failed' | 'done';
-  outputUrl?: string;
-  reason?: string;
-  createdAt: Date;
-}>();
+import { getJobStore, toJobStatusResponse } from '@/shared/jobs';
 
 export async function GET(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const jobId = params.id;
+    const { id: jobId } = await params;
+    const job = await getJobStore().getJob(jobId);
 
-    // For now, return a placeholder status since we haven't connected Trigger.dev yet
-    const placeholderStatus = {
-      status: 'queued' as const,
-      createdAt: new Date(),
-    };
-
-    // Store the placeholder status
-    if (!jobStatusStore.has(jobId)) {
-      jobStatusStore.set(jobId, placeholderStatus);
-    }
-
-    const jobStatus = jobStatusStore.get(jobId);
-
-    if (!jobStatus) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Job not found' },
         { status: 404 }
       );
     }
 
-    return NextResponse.json(jobStatus);
+    return NextResponse.json(toJobStatusResponse(job));
   } catch (error) {
     console.error('Error fetching job status:', error);
     return NextResponse.json(
@@ -43,4 +25,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,113 @@
+/* eslint-disable no-unused-vars */
+import { NextRequest, NextResponse } from 'next/server';
+
+import { formatSseComment, formatSseMessage, SSE_HEADERS } from '@/lib/sse';
+import { getJobStore, isTerminalJobStatus, JobRecord, toJobStatusResponse } from '@/shared/jobs';
+
+export const dynamic = 'force-dynamic';
+
+// The store has no change feed, so the stream re-reads the job on an interval
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Close before the platform's function timeout; EventSource reconnects with Last-Event-ID
+const MAX_STREAM_DURATION_MS = 25000;
+
+interface StreamState {
+  lastSeq: number;
+  lastStatusKey: string;
+  lastWriteAt: number;
+  startedAt: number;
+}
+
+function parseLastEventId(request: NextRequest): number {
+  const raw = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId');
+  const parsed = parseInt(raw || '0', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+function pushJobUpdates(job: JobRecord, state: StreamState, send: (chunk: string) => void): void {
+  for (const event of job.events) {
+    if (event.seq > state.lastSeq) {
+      send(formatSseMessage({ id: event.id, event: 'job-event', data: event }));
+      state.lastSeq = event.seq;
+    }
+  }
+
+  const statusKey = `${job.status}:${job.stage ?? ''}:${job.progress ?? ''}`;
+  if (statusKey !== state.lastStatusKey) {
+    send(formatSseMessage({ event: 'status', data: toJobStatusResponse(job) }));
+    state.lastStatusKey = statusKey;
+  }
+}
+
+function createJobStream(jobId: string, lastSeq: number, signal: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const state: StreamState = { lastSeq, lastStatusKey: '', lastWriteAt: Date.now(), startedAt: Date.now() };
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        state.lastWriteAt = Date.now();
+      };
+      const close = () => {
+        clearTimeout(timer);
+        try { controller.close(); } catch { /* already closed */ }
+      };
+
+      const tick = async () => {
+        if (signal.aborted) return close();
+        try {
+          const job = await getJobStore().getJob(jobId);
+          if (!job) return close();
+
+          pushJobUpdates(job, state, send);
+          if (isTerminalJobStatus(job.status)) {
+            send(formatSseMessage({ event: 'end', data: { status: job.status } }));
+            return close();
+          }
+          if (Date.now() - state.startedAt > MAX_STREAM_DURATION_MS) return close();
+          if (Date.now() - state.lastWriteAt > HEARTBEAT_INTERVAL_MS) send(formatSseComment('keep-alive'));
+
+          timer = setTimeout(tick, POLL_INTERVAL_MS);
+        } catch (error) {
+          console.error('Error streaming job updates:', error);
+          close();
+        }
+      };
+
+      signal.addEventListener('abort', close);
+      void tick();
+    },
+    cancel() {
+      clearTimeout(timer);
+    },
+  });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    const job = await getJobStore().getJob(jobId);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const stream = createJobStream(jobId, parseLastEventId(request), request.signal);
+    return new Response(stream, { headers: SSE_HEADERS });
+  } catch (error) {
+    console.error('Error opening job stream:', error);
+    return NextResponse.json(
+      { error: 'Failed to open job stream' },
+      { status: 500 }
+    );
+  }
+}
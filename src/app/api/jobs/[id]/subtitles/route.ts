@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getJobStore } from '@/shared/jobs';
+import { getR2Storage } from '@/shared/storage';
+import {
+  getSubtitleFileKey,
+  isSubtitleFormat,
+  SUBTITLE_FORMAT_DEFINITIONS,
+  SUBTITLE_FORMATS,
+  SubtitleFormat,
+} from '@/shared/subtitles';
+
+type SubtitleRequestResult =
+  | { format: SubtitleFormat; targetLang: string; error?: undefined }
+  | { error: NextResponse };
+
+// Validate the query against the job: a known format, one of its languages, and a finished render
+async function resolveSubtitleRequest(
+  jobId: string,
+  searchParams: URLSearchParams
+): Promise<SubtitleRequestResult> {
+  const format = searchParams.get('format') || 'srt';
+  if (!isSubtitleFormat(format)) {
+    return { error: NextResponse.json(
+      { error: `Unsupported subtitle format. Use one of: ${SUBTITLE_FORMATS.join(', ')}` },
+      { status: 400 }
+    ) };
+  }
+
+  const job = await getJobStore().getJob(jobId);
+  if (!job) {
+    return { error: NextResponse.json({ error: 'Job not found' }, { status: 404 }) };
+  }
+
+  const targetLang = searchParams.get('lang') || job.targetLangs[0];
+  if (!job.targetLangs.includes(targetLang)) {
+    return { error: NextResponse.json({ error: `Job has no ${targetLang} captions` }, { status: 400 }) };
+  }
+  if (job.status !== 'done') {
+    return { error: NextResponse.json(
+      { error: 'Subtitles are available once the job is done' },
+      { status: 409 }
+    ) };
+  }
+
+  return { format, targetLang };
+}
+
+/**
+ * Download a finished job's captions as a subtitle file. `format` is one of
+ * SUBTITLE_FORMATS (default srt); `lang` picks the target language and
+ * defaults to the job's first one.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    const resolved = await resolveSubtitleRequest(jobId, request.nextUrl.searchParams);
+    if (resolved.error) {
+      return resolved.error;
+    }
+
+    const { format, targetLang } = resolved;
+    const body = await getR2Storage().getObjectFromR2(getSubtitleFileKey(jobId, targetLang, format));
+    if (body === null) {
+      return NextResponse.json({ error: 'Subtitle file not found' }, { status: 404 });
+    }
+
+    const { contentType, extension } = SUBTITLE_FORMAT_DEFINITIONS[format];
+    return new NextResponse(Buffer.from(body), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${jobId}.${targetLang}.${extension}"`,
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching subtitles:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subtitles' },
+      { status: 500 }
+    );
+  }
+}
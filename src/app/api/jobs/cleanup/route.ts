@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { cleanupFinishedJobs } from '@/lib/jobs';
+
+// Vercel Cron calls this daily (see vercel.json) with CRON_SECRET as a bearer token
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Job cleanup is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const deleted = await cleanupFinishedJobs();
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error('Error cleaning up finished jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to clean up finished jobs' },
+      { status: 500 }
+    );
+  }
+}
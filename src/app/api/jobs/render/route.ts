@@ -1,39 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 
+import { getClientIP, generateJobId } from "@/shared/utils";
+import { getJobStore } from "@/shared/jobs";
+import { resolveCaptionStyle } from "@/shared/subtitles";
 import {
-  getClientIP,
-  generateJobId,
-  addActiveJob,
-  removeActiveJob,
-  checkConcurrencyLimits,
-  getActiveJobsDebug,
-} from "@/shared/utils";
-
-// Import the in-memory stores from the job status endpoint
-const jobStatusStore = new Map<
-  string,
-  {
-    status: "queued" | "running" | "failed" | "done";
-    outputUrl?: string;
-    reason?: string;
-    createdAt: Date;
-  }
->();
-
-const jobEventsStore = new Map<
-  string,
-  Array<{
-    id: string;
-    type: string;
-    timestamp: Date;
-    data?: Record<string, any>;
-  }>
->();
-
-interface RenderJobRequest {
-  r2Key: string;
-  targetLang: "vi";
-}
+  getIdempotencyKey,
+  getTargetLangs,
+  getTriggerIdempotencyKey,
+  isSttOverrideAllowed,
+  RenderJobRequest,
+  validateRequestBody,
+} from "@/lib/render-request";
+import { triggerRenderWorkflow } from "@/lib/trigger";
+import { checkConcurrencyLimits } from "@/lib/jobs";
 
 // Helper function to validate R2 file
 async function validateR2File(
@@ -73,68 +52,7 @@ async function validateR2File(
   }
 }
 
-// Helper function to call Trigger.dev endpoint
-async function callTriggerDev(
-  jobId: string,
-  r2Key: string,
-  targetLang: string
-): Promise<{ runId: string; error?: string }> {
-  try {
-    const triggerUrl = `${
-      process.env.TRIGGER_API_URL || "https://api.trigger.dev"
-    }/api/v1/jobs/render`;
-
-    const response = await fetch(triggerUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.TRIGGER_SECRET_KEY}`,
-      },
-      body: JSON.stringify({
-        jobId,
-        r2Key,
-        targetLang,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      return { runId: "", error: errorData.message || "Failed to trigger job" };
-    }
-
-    const data = await response.json();
-    return { runId: data.runId };
-  } catch {
-    return { runId: "", error: "Failed to connect to Trigger.dev" };
-  }
-}
-
-// Helper function to validate request body
-function validateRequestBody(body: RenderJobRequest): {
-  valid: boolean;
-  error?: string;
-} {
-  if (!body.r2Key || !body.targetLang) {
-    return {
-      valid: false,
-      error: "Missing required fields: r2Key and targetLang",
-    };
-  }
-
-  if (body.targetLang !== "vi") {
-    return {
-      valid: false,
-      error: "Currently only Vietnamese (vi) target language is supported",
-    };
-  }
-
-  return { valid: true };
-}
-
-async function validateJobRequest(
-  body: RenderJobRequest,
-  clientIP: string
-): Promise<NextResponse | null> {
+async function validateJobRequest(body: RenderJobRequest): Promise<NextResponse | null> {
   // Validate request body
   const validation = validateRequestBody(body);
   if (!validation.valid) {
@@ -150,65 +68,107 @@ async function validateJobRequest(
     );
   }
 
-  // Check concurrency limits
-  const concurrencyCheck = checkConcurrencyLimits(clientIP);
-  if (!concurrencyCheck.valid) {
-    return NextResponse.json(
-      { error: concurrencyCheck.error },
-      { status: 429 }
-    );
-  }
-
   return null;
 }
 
-async function processRenderJob(request: NextRequest): Promise<NextResponse> {
-  const body = (await request.json()) as RenderJobRequest;
-  const clientIP = getClientIP(request);
+/**
+ * Claim the client's idempotency key for a new job before creating it, so
+ * of several attempts of one request only the first starts a job; the
+ * others get that job back. Claims are released again if the job is refused.
+ */
+async function claimJob(
+  body: RenderJobRequest,
+  clientIP: string,
+  jobId: string
+): Promise<{ triggerKey?: string; response?: NextResponse }> {
+  const jobStore = getJobStore();
+  const { idempotencyKey } = body;
+  const claim = idempotencyKey
+    ? await jobStore.claimIdempotencyKey(clientIP, idempotencyKey, jobId)
+    : undefined;
+
+  if (claim && claim.jobId !== jobId) {
+    const existingJob = await jobStore.getJob(claim.jobId);
+    return { response: NextResponse.json({ jobId: claim.jobId, runId: existingJob?.triggerRunId }) };
+  }
 
-  // Validate all aspects of the request
-  const validationResult = await validateJobRequest(body, clientIP);
-  if (validationResult) {
-    return validationResult;
+  // Check concurrency limits
+  const concurrencyCheck = await checkConcurrencyLimits(clientIP);
+  if (!concurrencyCheck.valid) {
+    if (idempotencyKey) {
+      await jobStore.releaseIdempotencyKey(clientIP, idempotencyKey, jobId);
+    }
+    return { response: NextResponse.json({ error: concurrencyCheck.error }, { status: 429 }) };
   }
 
-  // Generate job ID and add to active jobs
-  const jobId = generateJobId();
-  addActiveJob(jobId, clientIP);
+  return {
+    triggerKey: idempotencyKey && claim && getTriggerIdempotencyKey(clientIP, idempotencyKey, claim.attempt),
+  };
+}
 
-  // Add job to status store with "queued" status
-  jobStatusStore.set(jobId, {
-    status: "queued",
-    createdAt: new Date(),
+// Create the job, then start its workflow run
+async function startRenderJob(
+  body: RenderJobRequest,
+  clientIP: string,
+  jobId: string,
+  triggerKey: string | undefined
+): Promise<NextResponse> {
+  const jobOptions = {
+    r2Key: body.r2Key,
+    targetLangs: getTargetLangs(body),
+    sourceLang: body.sourceLang,
+    sttProvider: isSttOverrideAllowed() ? body.sttProvider : undefined,
+    renderMode: body.mode,
+    captionStyle: resolveCaptionStyle(body.captionStyle),
+  };
+
+  const jobStore = getJobStore();
+  await jobStore.createJob({
+    id: jobId,
+    ip: clientIP,
+    idempotencyKey: body.idempotencyKey,
+    ...jobOptions,
   });
 
-  // Initialize empty events array for this job
-  jobEventsStore.set(jobId, []);
-
-  // Call Trigger.dev
-  const triggerResult = await callTriggerDev(
-    jobId,
-    body.r2Key,
-    body.targetLang
+  const triggerResult = await triggerRenderWorkflow(
+    { jobId, ...jobOptions },
+    triggerKey
   );
 
   if (triggerResult.error) {
-    // Update job status to failed
-    jobStatusStore.set(jobId, {
+    await jobStore.updateJob(jobId, {
       status: "failed",
       reason: triggerResult.error,
-      createdAt: new Date(),
     });
 
-    removeActiveJob(jobId);
     return NextResponse.json({ error: triggerResult.error }, { status: 500 });
   }
 
+  await jobStore.updateJob(jobId, { triggerRunId: triggerResult.runId });
+
   return NextResponse.json({
-    runId: jobId,
+    jobId,
+    runId: triggerResult.runId,
   });
 }
 
+async function processRenderJob(request: NextRequest): Promise<NextResponse> {
+  const json = (await request.json()) as RenderJobRequest;
+  const body = { ...json, idempotencyKey: getIdempotencyKey(request, json) };
+  const clientIP = getClientIP(request);
+
+  // Validate all aspects of the request
+  const validationResult = await validateJobRequest(body);
+  if (validationResult) {
+    return validationResult;
+  }
+
+  // The stored job counts toward the IP's limit until it finishes
+  const jobId = generateJobId();
+  const { triggerKey, response } = await claimJob(body, clientIP, jobId);
+  return response ?? startRenderJob(body, clientIP, jobId, triggerKey);
+}
+
 export async function POST(request: NextRequest) {
   try {
     return await processRenderJob(request);
@@ -221,9 +181,15 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET endpoint to check active jobs (for debugging)
-export async function GET() {
-  const activeJobsArray = getActiveJobsDebug();
+// GET endpoint to check the caller's active jobs (for debugging)
+export async function GET(request: NextRequest) {
+  const activeJobs = await getJobStore().listActiveJobs(getClientIP(request));
+  const activeJobsArray = activeJobs.map((job) => ({
+    jobId: job.id,
+    ip: job.ip,
+    status: job.status,
+    createdAt: job.createdAt,
+  }));
 
   return NextResponse.json({
     activeJobs: activeJobsArray,
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+
+import {
+  DEFAULT_TARGET_LANGUAGE,
+  getEnabledLanguages,
+  getSupportedSourceLanguages,
+  LanguagesResponse,
+  MAX_TARGET_LANGUAGES,
+} from '@/shared/languages';
+
+// Caption target languages the render route accepts, for the language selector
+export async function GET() {
+  const response: LanguagesResponse = {
+    languages: getEnabledLanguages(),
+    defaultLanguage: DEFAULT_TARGET_LANGUAGE,
+    sourceLanguages: getSupportedSourceLanguages(),
+    maxTargetLanguages: MAX_TARGET_LANGUAGES,
+  };
+
+  return NextResponse.json(response);
+}
@@ -2,6 +2,8 @@
 
 /* eslint-disable no-unused-vars */
 
+import type { JobStatusResponse } from "@/shared/jobs/response";
+
 interface JobResult {
   status: string;
   error?: string;
@@ -14,15 +16,17 @@ export function useJobStatus() {
     setResult: (result: JobResult) => void
   ) => {
     try {
-      const response = await fetch(`/api/status/${id}`);
-      const data = await response.json();
+      const response = await fetch(`/api/jobs/${encodeURIComponent(id)}`);
+      const data = (await response.json()) as JobStatusResponse;
 
-      setResult(data);
+      setResult({ ...data, error: data.reason });
 
-      if (data.status === "completed") {
+      if (data.status === "done") {
         return "Processing completed!";
       } else if (data.status === "failed") {
         return "Processing failed";
+      } else if (data.status === "cancelled") {
+        return "Processing cancelled";
       } else {
         setTimeout(() => checkStatus(id, setResult), 3000);
         return "Still processing...";
@@ -0,0 +1,71 @@
+"use client";
+
+import { CSSProperties } from "react";
+
+import { CaptionPosition, CaptionStyle } from "@/shared/subtitles/styles";
+
+interface CaptionStylePreviewProps {
+  style: CaptionStyle;
+  text?: string;
+}
+
+const JUSTIFY: Record<CaptionPosition, string> = {
+  bottom: "justify-end",
+  middle: "justify-center",
+  top: "justify-start",
+};
+
+function toRgba(hex: string, opacity: number): string {
+  const [red, green, blue] = [1, 3, 5].map((index) => parseInt(hex.slice(index, index + 2), 16));
+  return `rgba(${red}, ${green}, ${blue}, ${opacity})`;
+}
+
+// cqmin sizes track the frame's shorter side, the unit the worker scales by
+function getTextStyle(style: CaptionStyle): CSSProperties {
+  const outline = `${(style.fontSize * style.outlineWidth) / 50}cqmin`;
+  return {
+    fontFamily: style.fontFamily,
+    fontSize: `${style.fontSize}cqmin`,
+    fontWeight: style.bold ? 700 : 400,
+    textTransform: style.uppercase ? "uppercase" : "none",
+    color: style.textColor,
+    ...(style.box
+      ? {
+          backgroundColor: toRgba(style.boxColor, style.boxOpacity),
+          padding: `0 ${style.fontSize * 0.2}cqmin`,
+          boxDecorationBreak: "clone",
+        }
+      : {
+          WebkitTextStroke: style.outlineWidth > 0 ? `${outline} ${style.outlineColor}` : undefined,
+          paintOrder: "stroke fill",
+        }),
+  };
+}
+
+// Sample caption drawn over the video preview, as the render will place it
+export default function CaptionStylePreview({
+  style,
+  text = "Your captions will look like this",
+}: CaptionStylePreviewProps) {
+  const [firstWord, ...rest] = text.split(" ");
+
+  return (
+    <div aria-hidden className="pointer-events-none absolute inset-0" style={{ containerType: "size" }}>
+      <div
+        className={`flex h-full flex-col items-center text-center ${JUSTIFY[style.position]}`}
+        style={{ padding: "6cqh 5cqw" }}
+      >
+        <p className="leading-tight" style={getTextStyle(style)}>
+          {style.karaoke ? <span style={{ color: style.highlightColor }}>{firstWord}</span> : firstWord}{" "}
+          {rest.join(" ")}
+        </p>
+      </div>
+      {/* Translated captions have no word timings, so the render drops the highlight */}
+      {style.karaoke && (
+        <p className="absolute left-2 top-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+          Highlight: spoken-language captions only
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+/* eslint-disable no-unused-vars */
+
+import {
+  CAPTION_STYLE_PRESETS,
+  CaptionStylePresetName,
+  isCaptionStylePreset,
+} from "@/shared/subtitles/styles";
+
+// Word timings come from the speech, so translated captions can't follow it
+export const KARAOKE_FALLBACK_NOTE =
+  "Word highlighting only works when captions stay in the spoken language; translated captions render without it.";
+
+interface CaptionStyleSelectorProps {
+  selectedStyle: CaptionStylePresetName;
+  onStyleChange: (style: CaptionStylePresetName) => void;
+  disabled?: boolean;
+}
+
+export function CaptionStyleSelector({
+  selectedStyle,
+  onStyleChange,
+  disabled = false,
+}: CaptionStyleSelectorProps) {
+  return (
+    <div className="space-y-1">
+      <label className="flex items-center gap-2 text-sm text-secondary">
+        Caption style
+        <select
+          value={selectedStyle}
+          disabled={disabled}
+          onChange={(e) => {
+            if (isCaptionStylePreset(e.target.value)) {
+              onStyleChange(e.target.value);
+            }
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          {Object.entries(CAPTION_STYLE_PRESETS).map(([name, preset]) => (
+            <option key={name} value={name}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {CAPTION_STYLE_PRESETS[selectedStyle].style.karaoke && (
+        <p className="text-xs text-base-content/70">{KARAOKE_FALLBACK_NOTE}</p>
+      )}
+    </div>
+  );
+}
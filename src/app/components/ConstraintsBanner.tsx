@@ -1,5 +1,9 @@
 "use client";
 
+import { getLanguageName, getSupportedSourceLanguages } from "@/shared/languages";
+
+const SPOKEN_LANGUAGES = getSupportedSourceLanguages().map(getLanguageName).join(", ");
+
 export default function ConstraintsBanner() {
   return (
     <div className="alert alert-info mb-6 bg-neutral">
@@ -19,7 +23,7 @@ export default function ConstraintsBanner() {
       <div>
         <p className="font-medium">File Requirements:</p>
         <p className="text-sm">
-          MP4, WebM, or MOV files • ≤10s, ≤50MB, English Audio only
+          MP4, WebM, or MOV files • ≤10s, ≤50MB • Speech in {SPOKEN_LANGUAGES}
         </p>
       </div>
     </div>
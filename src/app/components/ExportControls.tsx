@@ -2,6 +2,8 @@
 
 import { useState, useCallback } from "react";
 
+import { SUBTITLE_FORMAT_DEFINITIONS, SubtitleFormat } from "@/shared/subtitles/formats";
+
 import { ExportHeader } from "./export-controls/ExportHeader";
 import { ExportFormatSelector } from "./export-controls/ExportFormatSelector";
 import { ExportActions } from "./export-controls/ExportActions";
@@ -9,27 +11,45 @@ import { ExportActionsGroup } from "./export-controls/ExportActionsGroup";
 
 interface ExportControlsProps {
   file: File;
+  jobId: string;
+  targetLanguage: string;
   videoUrl: string | null;
   processingStatus: string | null;
 }
 
-function useExportControls(file: File, videoUrl: string | null) {
-  const [selectedFormat, setSelectedFormat] = useState("srt");
+function getSubtitlesUrl(jobId: string, format: string, targetLanguage: string): string {
+  const query = new URLSearchParams({ format, lang: targetLanguage });
+  return `/api/jobs/${encodeURIComponent(jobId)}/subtitles?${query}`;
+}
+
+function useExportControls(file: File, jobId: string, targetLanguage: string) {
+  const [selectedFormat, setSelectedFormat] = useState<SubtitleFormat>("srt");
   const [isDownloading, setIsDownloading] = useState(false);
 
   const handleDownload = useCallback(async () => {
     setIsDownloading(true);
     try {
+      const response = await fetch(getSubtitlesUrl(jobId, selectedFormat, targetLanguage));
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Subtitle download failed (${response.status})`);
+      }
+
+      const objectUrl = URL.createObjectURL(await response.blob());
+      const { extension } = SUBTITLE_FORMAT_DEFINITIONS[selectedFormat];
       const link = document.createElement("a");
-      link.href = videoUrl || URL.createObjectURL(file);
-      link.download = `subtitled_${file.name.replace(/\.[^/.]+$/, "")}.${selectedFormat}`;
+      link.href = objectUrl;
+      link.download = `subtitled_${file.name.replace(/\.[^/.]+$/, "")}.${targetLanguage}.${extension}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(objectUrl);
+    } catch (error) {
+      console.error("Error downloading subtitles:", error);
     } finally {
       setIsDownloading(false);
     }
-  }, [file, videoUrl, selectedFormat]);
+  }, [file, jobId, targetLanguage, selectedFormat]);
 
   const handlePreview = useCallback(() => {
     console.log('Preview functionality would go here');
@@ -46,6 +66,8 @@ function useExportControls(file: File, videoUrl: string | null) {
 
 export default function ExportControls({
   file,
+  jobId,
+  targetLanguage,
   videoUrl,
   processingStatus
 }: ExportControlsProps) {
@@ -55,7 +77,7 @@ export default function ExportControls({
     isDownloading,
     handleDownload,
     handlePreview
-  } = useExportControls(file, videoUrl);
+  } = useExportControls(file, jobId, targetLanguage);
 
   return (
     <div className="card bg-base-100 shadow-lg p-4">
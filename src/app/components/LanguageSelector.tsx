@@ -1,20 +1,10 @@
 "use client";
 
-import { LanguageDropdown } from "./language-selector/LanguageDropdown";
+/* eslint-disable no-unused-vars */
 
-export interface LanguageOption {
-  code: string;
-  name: string;
-  nativeName: string;
-  flag: string;
-}
+import { useLanguages } from "../hooks/useLanguages";
 
-export const languageOptions: LanguageOption[] = [
-  { code: "vi", name: "Vietnamese", nativeName: "Tiếng Việt", flag: "🇻🇳" },
-  { code: "hi", name: "Hindi", nativeName: "हिन्दी", flag: "🇮🇳" },
-  { code: "fr", name: "French", nativeName: "Français", flag: "🇫🇷" },
-  { code: "es", name: "Spanish", nativeName: "Español", flag: "🇪🇸" },
-];
+import { LanguageDropdown } from "./language-selector/LanguageDropdown";
 
 interface LanguageSelectorProps {
   selectedLanguage: string;
@@ -27,11 +17,13 @@ export function LanguageSelector({
   onLanguageChange,
   className = "",
 }: LanguageSelectorProps) {
+  const { languages } = useLanguages();
+
   return (
     <LanguageDropdown
       selectedLanguage={selectedLanguage}
       onLanguageChange={onLanguageChange}
-      languageOptions={languageOptions}
+      languageOptions={languages}
       className={className}
     />
   );
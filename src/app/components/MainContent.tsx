@@ -1,5 +1,9 @@
 "use client";
 
+/* eslint-disable no-unused-vars */
+
+import { CaptionStylePresetName } from "@/shared/subtitles/styles";
+
 import { MainContentSection } from "./MainContentSection";
 
 interface MainContentProps {
@@ -8,6 +12,8 @@ interface MainContentProps {
   videoUrl: string | null;
   selectedLanguage: string;
   setSelectedLanguage: (language: string) => void;
+  captionStyle: CaptionStylePresetName;
+  setCaptionStyle: (style: CaptionStylePresetName) => void;
   setIsDragOver: (value: boolean) => void;
   uploadHandlers: {
     fileInputRef: React.RefObject<HTMLInputElement | null>;
@@ -21,6 +27,7 @@ interface MainContentProps {
   uploadProgress: number | null;
   isUploading: boolean;
   processingStatus: string | null;
+  jobId: string | null;
   handleRenderSubtitles: () => void;
   handleCancelUpload: () => void;
   handleUploadThingComplete: (fileData: {
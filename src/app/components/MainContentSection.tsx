@@ -1,5 +1,9 @@
 "use client";
 
+/* eslint-disable no-unused-vars */
+
+import { CaptionStylePresetName } from "@/shared/subtitles/styles";
+
 import { useMainContentHandlers } from "./MainContentSection/useMainContentHandlers";
 import { MainContentLayout } from "./MainContentSection/MainContentLayout";
 
@@ -8,11 +12,14 @@ interface MainContentSectionProps {
   videoUrl: string | null;
   selectedLanguage: string;
   setSelectedLanguage: (language: string) => void;
+  captionStyle: CaptionStylePresetName;
+  setCaptionStyle: (style: CaptionStylePresetName) => void;
   setIsDragOver: (value: boolean) => void;
   uploadHandlers: Record<string, unknown>;
   uploadProgress: number | null;
   isUploading: boolean;
   processingStatus: string | null;
+  jobId: string | null;
   handleRenderSubtitles: () => void;
   handleCancelUpload: () => void;
   handleUploadThingComplete: (fileData: {
@@ -46,11 +53,14 @@ export function MainContentSection({
   videoUrl,
   selectedLanguage,
   setSelectedLanguage,
+  captionStyle,
+  setCaptionStyle,
   setIsDragOver,
   uploadHandlers,
   uploadProgress,
   isUploading,
   processingStatus,
+  jobId,
   handleRenderSubtitles,
   handleCancelUpload,
   handleUploadThingComplete,
@@ -71,10 +81,13 @@ export function MainContentSection({
       videoUrl={videoUrl}
       selectedLanguage={selectedLanguage}
       setSelectedLanguage={setSelectedLanguage}
+      captionStyle={captionStyle}
+      setCaptionStyle={setCaptionStyle}
       uploadHandlers={uploadHandlers}
       uploadProgress={uploadProgress}
       isUploading={isUploading}
       processingStatus={processingStatus}
+      jobId={jobId}
       handleUploadThingComplete={handleUploadThingComplete}
       pendingFile={pendingFile}
       uploadState={uploadState}
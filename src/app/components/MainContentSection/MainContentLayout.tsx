@@ -1,5 +1,9 @@
 "use client";
 
+/* eslint-disable no-unused-vars */
+
+import { CaptionStylePresetName } from "@/shared/subtitles/styles";
+
 import ConstraintsBanner from "../ConstraintsBanner";
 
 import { UploadSection } from "./UploadSection";
@@ -10,10 +14,13 @@ interface MainContentLayoutProps {
   videoUrl: string | null;
   selectedLanguage: string;
   setSelectedLanguage: (language: string) => void;
+  captionStyle: CaptionStylePresetName;
+  setCaptionStyle: (style: CaptionStylePresetName) => void;
   uploadHandlers: Record<string, unknown>;
   uploadProgress: number | null;
   isUploading: boolean;
   processingStatus: string | null;
+  jobId: string | null;
   handleCancelUpload: () => void;
   handleUploadThingComplete: (fileData: {
     key: string;
@@ -56,6 +63,7 @@ export function MainContentLayout({
   uploadProgress,
   isUploading,
   processingStatus,
+  jobId,
   handleCancelUpload,
   handleUploadThingComplete,
   handleRetry,
@@ -63,11 +71,11 @@ export function MainContentLayout({
   uploadState,
   resetAll,
   handlers,
+  ...captionStyleProps
 }: MainContentLayoutProps) {
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
       <ConstraintsBanner />
-
       <UploadSection
         selectedLanguage={selectedLanguage}
         setSelectedLanguage={setSelectedLanguage}
@@ -82,17 +90,17 @@ export function MainContentLayout({
         handlers={handlers}
       />
 
-      {selectedFile && videoUrl && (
-        <ProcessingSection
-          selectedFile={selectedFile}
-          videoUrl={videoUrl}
-          processingStatus={processingStatus}
-          isUploading={isUploading}
-          selectedLanguage={selectedLanguage}
-          handleRenderClick={handlers.handleRenderClick}
-          resetAll={resetAll}
-        />
-      )}
+      <ProcessingSection
+        selectedFile={selectedFile}
+        videoUrl={videoUrl}
+        processingStatus={processingStatus}
+        jobId={jobId}
+        isUploading={isUploading}
+        selectedLanguage={selectedLanguage}
+        {...captionStyleProps}
+        handleRenderClick={handlers.handleRenderClick}
+        resetAll={resetAll}
+      />
     </div>
   );
 }
@@ -1,36 +1,68 @@
 "use client";
 
+/* eslint-disable no-unused-vars */
+
+import { CAPTION_STYLE_PRESETS, CaptionStylePresetName } from "@/shared/subtitles/styles";
+
 import VideoPreview from "../VideoPreview";
 import RenderButton from "../RenderButton";
 import ExportControls from "../ExportControls";
 import MakeAnotherButton from "../MakeAnotherButton";
 import StatusPill from "../StatusPill";
+import CaptionStylePreview from "../CaptionStylePreview";
+import { CaptionStyleSelector } from "../CaptionStyleSelector";
 
 interface ProcessingSectionProps {
   selectedFile: File | null;
   videoUrl: string | null;
   processingStatus: string | null;
+  jobId: string | null;
   isUploading: boolean;
   selectedLanguage: string;
+  captionStyle: CaptionStylePresetName;
+  setCaptionStyle: (style: CaptionStylePresetName) => void;
   handleRenderClick: () => void;
   resetAll: () => void;
 }
 
+// The style can be changed until rendering starts; then the status takes its place
+function StatusOrStyle({
+  processingStatus,
+  captionStyle,
+  setCaptionStyle,
+}: Pick<ProcessingSectionProps, "processingStatus" | "captionStyle" | "setCaptionStyle">) {
+  return processingStatus ? (
+    <StatusPill status={processingStatus} />
+  ) : (
+    <CaptionStyleSelector selectedStyle={captionStyle} onStyleChange={setCaptionStyle} />
+  );
+}
+
 export function ProcessingSection({
   selectedFile,
   videoUrl,
   processingStatus,
+  jobId,
   isUploading,
   selectedLanguage,
+  captionStyle,
+  setCaptionStyle,
   handleRenderClick,
   resetAll,
 }: ProcessingSectionProps) {
+  if (!selectedFile || !videoUrl) return null;
+  const overlay = processingStatus ? null : <CaptionStylePreview style={CAPTION_STYLE_PRESETS[captionStyle].style} />;
+
   return (
     <div className="space-y-6">
-      <VideoPreview file={selectedFile!} url={videoUrl!} />
+      <VideoPreview file={selectedFile} url={videoUrl} overlay={overlay} />
 
-      <div className="flex items-center justify-between">
-        {processingStatus && <StatusPill status={processingStatus} />}
+      <div className="flex items-center justify-between gap-4">
+        <StatusOrStyle
+          processingStatus={processingStatus}
+          captionStyle={captionStyle}
+          setCaptionStyle={setCaptionStyle}
+        />
         <RenderButton
           onClick={handleRenderClick}
           processingStatus={processingStatus}
@@ -40,18 +72,18 @@ export function ProcessingSection({
       </div>
 
       {processingStatus === "Done" && (
-        <ExportControls
-          file={selectedFile!}
-          videoUrl={videoUrl}
-          processingStatus={processingStatus}
-        />
-      )}
-
-      {processingStatus === "Done" && (
-        <MakeAnotherButton
-          onReset={resetAll}
-          processingStatus={processingStatus}
-        />
+        <>
+          {jobId && (
+            <ExportControls
+              file={selectedFile}
+              jobId={jobId}
+              targetLanguage={selectedLanguage}
+              videoUrl={videoUrl}
+              processingStatus={processingStatus}
+            />
+          )}
+          <MakeAnotherButton onReset={resetAll} processingStatus={processingStatus} />
+        </>
       )}
     </div>
   );
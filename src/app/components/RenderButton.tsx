@@ -1,7 +1,8 @@
 "use client";
 
+import { getLanguageName } from "@/shared/languages";
+
 import StatusPill from "./StatusPill";
-import { languageOptions } from "./LanguageSelector";
 
 interface RenderButtonProps {
   onClick: () => void;
@@ -11,13 +12,10 @@ interface RenderButtonProps {
 }
 
 export default function RenderButton({ onClick, processingStatus, isUploading, selectedLanguage = 'vi' }: RenderButtonProps) {
-  // Get the selected language option
-  const selectedOption = languageOptions.find(opt => opt.code === selectedLanguage) || languageOptions[0];
-
   // Dynamic button text based on selected language
   const renderButtonText = processingStatus === 'Done'
     ? 'Download Subtitled Video'
-    : `Render ${selectedOption.name} Subtitles`;
+    : `Render ${getLanguageName(selectedLanguage)} Subtitles`;
 
   return (
     <div className="text-center space-y-4">
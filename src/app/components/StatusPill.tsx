@@ -1,34 +1,39 @@
 "use client";
 
+import { JobStage, JobStatus } from "@/shared/jobs/state";
+
 interface StatusPillProps {
   status: string;
 }
 
+// Labels the client shows before a job exists on the server
+type ClientStatus = 'processing';
+
+const STATUS_CONFIG: Record<JobStatus | JobStage | ClientStatus, { color: string; icon: string }> = {
+  queued: { color: 'neutral', icon: '⏳' },
+  processing: { color: 'info', icon: '🔄' },
+  uploading: { color: 'info', icon: '📤' },
+  running: { color: 'warning', icon: '⚙️' },
+  downloading: { color: 'warning', icon: '📥' },
+  transcribing: { color: 'warning', icon: '🎤' },
+  translating: { color: 'warning', icon: '🌐' },
+  validating: { color: 'warning', icon: '✅' },
+  rendering: { color: 'warning', icon: '🎬' },
+  done: { color: 'success', icon: '✨' },
+  failed: { color: 'error', icon: '❌' },
+  cancelled: { color: 'neutral', icon: '🚫' },
+};
+
+const DEFAULT_CONFIG = { color: 'neutral', icon: '⚪' };
+
+// Failures are shown as "Error: <reason>"
+function getStatusKey(status: string): string {
+  const key = status.toLowerCase();
+  return key.startsWith('error') ? 'failed' : key;
+}
+
 export default function StatusPill({ status }: StatusPillProps) {
-  const getStatusConfig = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'queued':
-        return { color: 'neutral', icon: '⏳' };
-      case 'uploading':
-        return { color: 'info', icon: '📤' };
-      case 'transcribing':
-        return { color: 'warning', icon: '🎤' };
-      case 'translating':
-        return { color: 'warning', icon: '🌐' };
-      case 'validating':
-        return { color: 'warning', icon: '✅' };
-      case 'rendering':
-        return { color: 'warning', icon: '🎬' };
-      case 'done':
-        return { color: 'success', icon: '✨' };
-      case 'failed':
-        return { color: 'error', icon: '❌' };
-      default:
-        return { color: 'neutral', icon: '⚪' };
-    }
-  };
-
-  const config = getStatusConfig(status);
+  const config = STATUS_CONFIG[getStatusKey(status) as keyof typeof STATUS_CONFIG] ?? DEFAULT_CONFIG;
 
   return (
     <div
@@ -40,4 +45,4 @@ export default function StatusPill({ status }: StatusPillProps) {
       <span>{status}</span>
     </div>
   );
-}
\ No newline at end of file
+}
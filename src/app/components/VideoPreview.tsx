@@ -3,12 +3,14 @@
 interface VideoPreviewProps {
   file: File;
   url: string;
+  // Drawn over the video, e.g. a caption style sample
+  overlay?: React.ReactNode;
 }
 
-export default function VideoPreview({ file, url }: VideoPreviewProps) {
+export default function VideoPreview({ file, url, overlay }: VideoPreviewProps) {
   return (
     <div className="card bg-base-100 shadow-lg p-4 mb-6">
-      <div className="aspect-video bg-base-200 rounded-lg overflow-hidden">
+      <div className="relative aspect-video bg-base-200 rounded-lg overflow-hidden">
         <video
           src={url}
           controls
@@ -17,6 +19,7 @@ export default function VideoPreview({ file, url }: VideoPreviewProps) {
         >
           Your browser does not support the video tag.
         </video>
+        {overlay}
       </div>
       <div className="mt-3 text-sm text-secondary">
         <p>Preview: {file.name}</p>
@@ -1,21 +1,23 @@
 "use client";
 
+/* eslint-disable no-unused-vars */
+
 import { Globe, ChevronDown } from "lucide-react";
 
-import { LanguageOption } from "../LanguageSelector";
+import { LanguageDefinition } from "@/shared/languages";
 
 import { LanguageOptionItem } from "./LanguageOption";
 import { useLanguageDropdown } from "./useLanguageDropdown";
 
 interface LanguageDropdownProps {
   selectedLanguage: string;
-  onLanguageChange: () => void;
-  languageOptions: LanguageOption[];
+  onLanguageChange: (language: string) => void;
+  languageOptions: LanguageDefinition[];
   className?: string;
 }
 
 function getSelectedOption(
-  languageOptions: LanguageOption[],
+  languageOptions: LanguageDefinition[],
   selectedLanguage: string
 ) {
   return (
@@ -29,7 +31,7 @@ function DropdownTrigger({
   isOpen,
   onClick,
 }: {
-  selectedOption: LanguageOption;
+  selectedOption: LanguageDefinition;
   isOpen: boolean;
   onClick: () => void;
 }) {
@@ -55,9 +57,9 @@ function DropdownMenu({
   selectedLanguage,
   onSelect,
 }: {
-  languageOptions: LanguageOption[];
+  languageOptions: LanguageDefinition[];
   selectedLanguage: string;
-  onSelect: () => void;
+  onSelect: (language: string) => void;
 }) {
   return (
     <div
@@ -86,8 +88,8 @@ export function LanguageDropdown({
 
   const selectedOption = getSelectedOption(languageOptions, selectedLanguage);
 
-  const handleLanguageSelect = () => {
-    onLanguageChange();
+  const handleLanguageSelect = (language: string) => {
+    onLanguageChange(language);
     closeDropdown();
   };
 
@@ -1,11 +1,13 @@
 "use client";
 
-import { LanguageOption } from "../LanguageSelector";
+/* eslint-disable no-unused-vars */
+
+import { LanguageDefinition } from "@/shared/languages";
 
 interface LanguageOptionItemProps {
-  option: LanguageOption;
+  option: LanguageDefinition;
   isSelected: boolean;
-  onSelect: () => void;
+  onSelect: (language: string) => void;
 }
 
 export function LanguageOptionItem({ option, isSelected, onSelect }: LanguageOptionItemProps) {
@@ -14,12 +16,12 @@ export function LanguageOptionItem({ option, isSelected, onSelect }: LanguageOpt
       <a
         onClick={(e) => {
           e.preventDefault();
-          onSelect();
+          onSelect(option.code);
         }}
         className={`justify-between ${isSelected ? "active" : ""}`}
       >
         <span className="text-lg flag-emoji">{option.flag}</span>
-        <div className="text-left">
+        <div className="text-left" dir={option.direction}>
           <div className="font-medium">{option.nativeName}</div>
           <div className="text-xs text-base-content/70">
             {option.name}
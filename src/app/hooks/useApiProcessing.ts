@@ -1,85 +1,28 @@
 "use client";
 
-import { useCallback, useState } from "react";
-
-interface FileMetadata {
-  key: string;
-  size: number;
-  mime: string;
-  url: string;
-  name: string;
-}
+import { useCallback } from "react";
 
-interface UploadState {
-  isUploading: boolean;
-  uploadProgress: number;
-  fileMetadata: FileMetadata | null;
-  error: string | null;
-  retryCount: number;
-  isRetrying: boolean;
-}
+import { CaptionStylePresetName } from "@/shared/subtitles/styles";
 
-export function useApiProcessing() {
-  const [uploadState, setUploadState] = useState<UploadState>({
-    isUploading: false,
-    uploadProgress: 0,
-    fileMetadata: null,
-    error: null,
-    retryCount: 0,
-    isRetrying: false,
-  });
-
-  const startRenderJob = useCallback(
-    async (r2Key: string, targetLanguage: string, retryAttempt = 0): Promise<string> => {
-      try {
-        const response = await fetch("/api/jobs/render", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            r2Key,
-            targetLang: targetLanguage,
-          }),
-        });
+import { useRenderJobRequest } from "./useRenderJobRequest";
+import { FileMetadata, useUploadState } from "./useUploadState";
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "Failed to start processing");
-        }
-
-        const result = await response.json();
-        return result.jobId;
-      } catch (error) {
-        // Retry logic for network errors or server issues
-        if (retryAttempt < 2) { // Max 3 attempts (0, 1, 2)
-          setUploadState((prev) => ({
-            ...prev,
-            isRetrying: true,
-            retryCount: retryAttempt + 1,
-          }));
-
-          // Exponential backoff: 1s, 2s, 4s
-          const delay = Math.pow(2, retryAttempt) * 1000;
-          await new Promise((resolve) => setTimeout(resolve, delay));
-
-          setUploadState((prev) => ({
-            ...prev,
-            isRetrying: false,
-          }));
-
-          return startRenderJob(r2Key, targetLanguage, retryAttempt + 1);
-        }
-        throw error;
-      }
-    },
-    [setUploadState]
-  );
+export function useApiProcessing() {
+  const {
+    uploadState,
+    setUploadState,
+    setFileMetadata,
+    setUploading,
+    setError,
+    resetUploadState,
+  } = useUploadState();
+  const { startRenderJob } = useRenderJobRequest(setUploadState);
 
   const handleUploadComplete = useCallback(
     async (
       fileMetadata: FileMetadata,
-      targetLanguage: string
+      targetLanguage: string,
+      captionStyle?: CaptionStylePresetName
     ): Promise<{ r2Key: string; jobId: string }> => {
       setUploadState((prev) => ({
         ...prev,
@@ -96,7 +39,12 @@ export function useApiProcessing() {
         const r2Key = fileMetadata.key;
 
         // Start the render job with R2 key
-        const jobId = await startRenderJob(r2Key, targetLanguage);
+        const jobId = await startRenderJob({
+          r2Key,
+          targetLanguage,
+          captionStyle,
+          idempotencyKey: crypto.randomUUID(),
+        });
 
         setUploadState((prev) => ({
           ...prev,
@@ -156,41 +104,10 @@ export function useApiProcessing() {
     [setUploadState]
   );
 
-  const setFileMetadata = useCallback((fileMetadata: FileMetadata | null) => {
-    setUploadState((prev) => ({
-      ...prev,
-      fileMetadata,
-    }));
-  }, []);
-
-  const setUploading = useCallback((isUploading: boolean) => {
-    setUploadState((prev) => ({
-      ...prev,
-      isUploading,
-    }));
-  }, []);
-
-  const setError = useCallback((error: string | null) => {
-    setUploadState((prev) => ({
-      ...prev,
-      error,
-    }));
-  }, []);
-
-  const resetUploadState = useCallback(() => {
-    setUploadState({
-      isUploading: false,
-      uploadProgress: 0,
-      fileMetadata: null,
-      error: null,
-      retryCount: 0,
-      isRetrying: false,
-    });
-  }, []);
-
   const retryUploadComplete = useCallback(async (
     fileMetadata: FileMetadata | null,
-    targetLanguage: string
+    targetLanguage: string,
+    captionStyle?: CaptionStylePresetName
   ): Promise<{ r2Key: string; jobId: string }> => {
     if (!fileMetadata) {
       throw new Error("No file metadata available for retry");
@@ -204,7 +121,7 @@ export function useApiProcessing() {
     }));
 
     try {
-      return await handleUploadComplete(fileMetadata, targetLanguage);
+      return await handleUploadComplete(fileMetadata, targetLanguage, captionStyle);
     } catch (error) {
       throw error;
     } finally {
@@ -213,7 +130,7 @@ export function useApiProcessing() {
         isRetrying: false,
       }));
     }
-  }, [handleUploadComplete]);
+  }, [handleUploadComplete, setUploadState]);
 
   return {
     startRealProcessing,
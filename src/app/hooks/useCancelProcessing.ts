@@ -0,0 +1,35 @@
+"use client";
+
+import { useCallback } from "react";
+
+import { useJobCancellation } from "./useJobCancellation";
+
+interface CancelProcessingOptions {
+  currentJobId: string | null;
+  resetProgress: () => void;
+  resetStatus: () => void;
+  resetProcessingState: () => void;
+}
+
+// Stops the upload locally and, once a job exists, asks the server to cancel it
+export function useCancelProcessing({
+  currentJobId,
+  resetProgress,
+  resetStatus,
+  resetProcessingState,
+}: CancelProcessingOptions) {
+  const { cancelJob } = useJobCancellation();
+
+  const handleCancelUpload = useCallback(async () => {
+    resetProgress();
+    resetProcessingState();
+
+    // Once a job exists the server stops it; the status stream then reports "Cancelled"
+    if (currentJobId && (await cancelJob(currentJobId))) {
+      return;
+    }
+    resetStatus();
+  }, [currentJobId, cancelJob, resetProgress, resetStatus, resetProcessingState]);
+
+  return { handleCancelUpload };
+}
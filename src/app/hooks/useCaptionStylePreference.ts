@@ -0,0 +1,46 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+import {
+  CaptionStylePresetName,
+  DEFAULT_CAPTION_STYLE_PRESET,
+  isCaptionStylePreset,
+} from "@/shared/subtitles/styles";
+
+const STORAGE_KEYS = {
+  CAPTION_STYLE: 'caption-style'
+};
+
+export function useCaptionStylePreference() {
+  const [captionStyle, setCaptionStyleState] = useState<CaptionStylePresetName>(DEFAULT_CAPTION_STYLE_PRESET);
+
+  useEffect(() => {
+    try {
+      // A preset removed since it was saved falls back to the default
+      const savedStyle = localStorage.getItem(STORAGE_KEYS.CAPTION_STYLE);
+      if (isCaptionStylePreset(savedStyle)) {
+        setCaptionStyleState(savedStyle);
+      }
+    } catch (error) {
+      console.warn('Failed to load caption style preference from localStorage:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEYS.CAPTION_STYLE, captionStyle);
+    } catch (error) {
+      console.warn('Failed to save caption style preference to localStorage:', error);
+    }
+  }, [captionStyle]);
+
+  const setCaptionStyle = useCallback((style: CaptionStylePresetName) => {
+    setCaptionStyleState(style);
+  }, []);
+
+  return {
+    captionStyle,
+    setCaptionStyle
+  };
+}
@@ -5,6 +5,7 @@ import { useCallback, useState } from "react";
 import { useDragState } from "./useDragState";
 import { useVideoFile } from "./useVideoFile";
 import { useLanguagePreference } from "./useLanguagePreference";
+import { useCaptionStylePreference } from "./useCaptionStylePreference";
 
 export interface UploadedFileData {
   key: string;
@@ -18,6 +19,7 @@ export function useFileState() {
   const { isDragOver, setIsDragOver } = useDragState();
   const { selectedFile, videoUrl, handleFileSelected, handleFileDeleted, resetVideoFile } = useVideoFile();
   const { selectedLanguage, setSelectedLanguage } = useLanguagePreference();
+  const { captionStyle, setCaptionStyle } = useCaptionStylePreference();
   const [uploadedFileData, setUploadedFileData] = useState<UploadedFileData | null>(null);
 
   const handleUploadComplete = useCallback((fileData: UploadedFileData) => {
@@ -40,6 +42,8 @@ export function useFileState() {
     videoUrl,
     selectedLanguage,
     setSelectedLanguage,
+    captionStyle,
+    setCaptionStyle,
     setIsDragOver,
     handleFileSelected,
     handleFileDeleted,
@@ -0,0 +1,27 @@
+"use client";
+
+import { useCallback } from "react";
+
+export function useJobCancellation() {
+  // Resolves false when the server refused, e.g. because the job already finished
+  const cancelJob = useCallback(async (jobId: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/cancel`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error("Failed to cancel job:", errorData.error || response.statusText);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      return false;
+    }
+  }, []);
+
+  return { cancelJob };
+}
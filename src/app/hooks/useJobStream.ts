@@ -0,0 +1,56 @@
+"use client";
+
+/* eslint-disable no-unused-vars */
+
+import { useCallback } from "react";
+
+import type { JobStatusResponse } from "@/shared/jobs/response";
+
+import { describeJobStatus, isJobFinished, useStatusPolling } from "./useStatusPolling";
+
+export function useJobStream() {
+  const { startPolling } = useStatusPolling();
+
+  const startStreaming = useCallback(
+    (
+      jobId: string,
+      setStatus: (status: string) => void,
+      setStopUpdates: (stop: (() => void) | null) => void
+    ) => {
+      if (typeof EventSource === "undefined") {
+        startPolling(jobId, setStatus, setStopUpdates);
+        return;
+      }
+
+      // EventSource reconnects on its own and resumes from the last event id
+      const source = new EventSource(`/api/jobs/${encodeURIComponent(jobId)}/stream`);
+
+      const stop = () => {
+        source.close();
+        setStopUpdates(null);
+      };
+
+      source.addEventListener("status", (message) => {
+        const job = JSON.parse((message as MessageEvent<string>).data) as JobStatusResponse;
+        setStatus(describeJobStatus(job));
+
+        if (isJobFinished(job)) {
+          stop();
+        }
+      });
+
+      source.addEventListener("error", () => {
+        // A closed source means the server refused the stream; polling reports why
+        if (source.readyState === EventSource.CLOSED) {
+          stop();
+          startPolling(jobId, setStatus, setStopUpdates);
+        }
+      });
+
+      setStopUpdates(stop);
+    },
+    [startPolling]
+  );
+
+  return { startStreaming };
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useCallback } from "react";
+
+import { useJobStream } from "./useJobStream";
+import { useProcessingStatus } from "./useProcessingStatus";
+
+// Records a started job and follows its progress in the caller's status
+export function useJobTracking(status: ReturnType<typeof useProcessingStatus>) {
+  const { setStatus, setJobId, setStopStatusUpdates } = status;
+  const { startStreaming } = useJobStream();
+
+  const trackJob = useCallback((jobId: string) => {
+    setJobId(jobId);
+    setStatus("Queued");
+
+    // Follow job progress live; falls back to polling without EventSource
+    startStreaming(jobId, setStatus, setStopStatusUpdates);
+  }, [setJobId, setStatus, setStopStatusUpdates, startStreaming]);
+
+  return { trackJob };
+}
@@ -2,14 +2,17 @@
 
 import { useState, useEffect, useCallback } from "react";
 
+import { DEFAULT_TARGET_LANGUAGE } from "@/shared/languages";
+
+import { useLanguages } from "./useLanguages";
+
 const STORAGE_KEYS = {
   SELECTED_LANGUAGE: 'selected-language'
 };
 
-const DEFAULT_LANGUAGE = 'vi';
-
 export function useLanguagePreference() {
-  const [selectedLanguage, setSelectedLanguageState] = useState<string>(DEFAULT_LANGUAGE);
+  const { languages, defaultLanguage } = useLanguages();
+  const [selectedLanguage, setSelectedLanguageState] = useState<string>(DEFAULT_TARGET_LANGUAGE);
 
   useEffect(() => {
     try {
@@ -22,6 +25,17 @@ export function useLanguagePreference() {
     }
   }, []);
 
+  // A saved language the server no longer offers falls back to the default
+  useEffect(() => {
+    const isOffered = (code: string) => languages.some((language) => language.code === code);
+    if (isOffered(selectedLanguage)) return;
+
+    const fallback = isOffered(defaultLanguage) ? defaultLanguage : languages[0]?.code;
+    if (fallback) {
+      setSelectedLanguageState(fallback);
+    }
+  }, [languages, defaultLanguage, selectedLanguage]);
+
   useEffect(() => {
     try {
       localStorage.setItem(STORAGE_KEYS.SELECTED_LANGUAGE, selectedLanguage);
@@ -38,4 +52,4 @@ export function useLanguagePreference() {
     selectedLanguage,
     setSelectedLanguage
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import {
+  DEFAULT_TARGET_LANGUAGE,
+  getEnabledLanguages,
+  LanguageDefinition,
+  LanguagesResponse,
+} from "@/shared/languages";
+
+let languagesRequest: Promise<LanguagesResponse> | null = null;
+
+// One request per page load, shared by every component that needs the list
+function fetchLanguages(): Promise<LanguagesResponse> {
+  if (!languagesRequest) {
+    languagesRequest = fetch('/api/languages')
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Languages request failed with ${response.status}`);
+        }
+        return response.json() as Promise<LanguagesResponse>;
+      })
+      .catch((error) => {
+        languagesRequest = null;
+        throw error;
+      });
+  }
+  return languagesRequest;
+}
+
+/**
+ * Caption target languages offered by the server. Starts from the bundled
+ * registry so the selector renders immediately, then switches to the
+ * server's list once it arrives.
+ */
+export function useLanguages() {
+  const [languages, setLanguages] = useState<LanguageDefinition[]>(getEnabledLanguages);
+  const [defaultLanguage, setDefaultLanguage] = useState(DEFAULT_TARGET_LANGUAGE);
+
+  useEffect(() => {
+    let active = true;
+
+    fetchLanguages()
+      .then((response) => {
+        if (!active) return;
+        setLanguages(response.languages);
+        setDefaultLanguage(response.defaultLanguage);
+      })
+      .catch((error) => {
+        console.warn('Failed to load languages, using the built-in list:', error);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return { languages, defaultLanguage };
+}
@@ -2,14 +2,20 @@
 
 import { useCallback } from "react";
 
+import { CaptionStylePresetName } from "@/shared/subtitles/styles";
+
+import { useCancelProcessing } from "./useCancelProcessing";
 import { useUploadProgress } from "./useUploadProgress";
 import { useProcessingStatus } from "./useProcessingStatus";
 import { useRealProcessing } from "./useRealProcessing";
 import { useSimulatedProcessing } from "./useSimulatedProcessing";
+import { FileMetadata } from "./useUploadState";
 
 export function useProcessingLogic() {
-  const { uploadProgress, isUploading, resetProgress } = useUploadProgress();
-  const { processingStatus, currentJobId, resetStatus } = useProcessingStatus();
+  const progress = useUploadProgress();
+  const status = useProcessingStatus();
+  const { uploadProgress, isUploading, resetProgress } = progress;
+  const { processingStatus, currentJobId, resetStatus } = status;
   const {
     startRealProcessing,
     continueProcessingAfterUpload,
@@ -17,19 +23,23 @@ export function useProcessingLogic() {
     pendingFile,
     resetProcessingState,
     uploadState
-  } = useRealProcessing();
+  } = useRealProcessing(progress, status);
   const { simulateProcessing } = useSimulatedProcessing();
+  const { handleCancelUpload } = useCancelProcessing({
+    currentJobId,
+    resetProgress,
+    resetStatus,
+    resetProcessingState,
+  });
 
-  const handleCancelUpload = useCallback(() => {
-    resetProgress();
-    resetStatus();
-    resetProcessingState();
-  }, [resetProgress, resetStatus, resetProcessingState]);
-
-  const handleRenderSubtitles = useCallback(async (file?: File, targetLanguage?: string) => {
+  const handleRenderSubtitles = useCallback(async (
+    file?: File,
+    targetLanguage?: string,
+    captionStyle?: CaptionStylePresetName
+  ) => {
     if (file && targetLanguage) {
       try {
-        await startRealProcessing(file, targetLanguage);
+        await startRealProcessing(file, targetLanguage, captionStyle);
       } catch (error) {
         console.error("Error in handleRenderSubtitles:", error);
         // The error is already handled in startRealProcessing
@@ -39,16 +49,10 @@ export function useProcessingLogic() {
     }
   }, [startRealProcessing, simulateProcessing]);
 
-  const handleUploadComplete = useCallback(async (fileMetadata: {
-    key: string;
-    size: number;
-    mime: string;
-    url: string;
-    name: string;
-  }) => {
+  const handleUploadComplete = useCallback(async (fileMetadata: FileMetadata) => {
     if (pendingFile) {
       try {
-        await continueProcessingAfterUpload(fileMetadata, pendingFile.targetLanguage);
+        await continueProcessingAfterUpload(fileMetadata, pendingFile.targetLanguage, pendingFile.captionStyle);
       } catch (error) {
         console.error("Error after upload complete:", error);
         // The error is already handled in continueProcessingAfterUpload
@@ -1,11 +1,11 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
 
 export function useProcessingStatus() {
   const [processingStatus, setProcessingStatus] = useState<string | null>(null);
   const [currentJobId, setCurrentJobId] = useState<string | null>(null);
-  const [statusCheckInterval, setStatusCheckInterval] = useState<NodeJS.Timeout | null>(null);
+  const stopStatusUpdatesRef = useRef<(() => void) | null>(null);
 
   const setStatus = useCallback((status: string) => {
     setProcessingStatus(status);
@@ -15,26 +15,23 @@ export function useProcessingStatus() {
     setCurrentJobId(jobId);
   }, []);
 
-  const setStatusInterval = useCallback((interval: NodeJS.Timeout | null) => {
-    setStatusCheckInterval(interval);
+  const setStopStatusUpdates = useCallback((stop: (() => void) | null) => {
+    stopStatusUpdatesRef.current = stop;
   }, []);
 
   const resetStatus = useCallback(() => {
     setProcessingStatus(null);
     setCurrentJobId(null);
-    if (statusCheckInterval) {
-      clearInterval(statusCheckInterval);
-      setStatusCheckInterval(null);
-    }
-  }, [statusCheckInterval]);
+    stopStatusUpdatesRef.current?.();
+    stopStatusUpdatesRef.current = null;
+  }, []);
 
   return {
     processingStatus,
     currentJobId,
-    statusCheckInterval,
     setStatus,
     setJobId,
-    setStatusInterval,
+    setStopStatusUpdates,
     resetStatus
   };
-}
\ No newline at end of file
+}
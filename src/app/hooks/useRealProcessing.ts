@@ -2,36 +2,50 @@
 
 import { useCallback, useState } from "react";
 
+import { CaptionStylePresetName } from "@/shared/subtitles/styles";
+
 import { useUploadProgress } from "./useUploadProgress";
 import { useProcessingStatus } from "./useProcessingStatus";
 import { useApiProcessing } from "./useApiProcessing";
-import { useStatusPolling } from "./useStatusPolling";
-
-interface FileMetadata {
-  key: string;
-  size: number;
-  mime: string;
-  url: string;
-  name: string;
+import { useJobTracking } from "./useJobTracking";
+import { FileMetadata } from "./useUploadState";
+
+interface PendingFile {
+  file: File;
+  targetLanguage: string;
+  captionStyle?: CaptionStylePresetName;
 }
 
-export function useRealProcessing() {
-  const { setProgress, setUploading, resetProgress } = useUploadProgress();
-  const { setStatus, setJobId, setStatusInterval } = useProcessingStatus();
+// Progress and status are owned by the caller so updates reach the rendered state
+export function useRealProcessing(
+  progress: ReturnType<typeof useUploadProgress>,
+  status: ReturnType<typeof useProcessingStatus>
+) {
+  const { setProgress, setUploading, resetProgress } = progress;
+  const { setStatus } = status;
   const { handleUploadComplete, retryUploadComplete, uploadState } = useApiProcessing();
-  const { startPolling } = useStatusPolling();
+  const { trackJob } = useJobTracking(status);
+
+  const [pendingFile, setPendingFile] = useState<PendingFile | null>(null);
 
-  const [pendingFile, setPendingFile] = useState<{ file: File; targetLanguage: string } | null>(null);
+  const failProcessing = useCallback((error: unknown) => {
+    setStatus(
+      `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+    setUploading(false);
+    resetProgress();
+    setPendingFile(null);
+  }, [setStatus, setUploading, resetProgress]);
 
   const startRealProcessing = useCallback(
-    async (file: File, targetLanguage: string) => {
+    async (file: File, targetLanguage: string, captionStyle?: CaptionStylePresetName) => {
       try {
         setStatus("Uploading");
         setUploading(true);
         setProgress(0);
 
-        // Store the file and language for after upload completes
-        setPendingFile({ file, targetLanguage });
+        // Store the file, language and style for after upload completes
+        setPendingFile({ file, targetLanguage, captionStyle });
 
         // The actual upload will be handled by UploadThingUploadZone component
         // This function now sets up the state for the upload process
@@ -43,68 +57,50 @@ export function useRealProcessing() {
         };
       } catch (error) {
         console.error("Error starting processing:", error);
-        setStatus(
-          `Error: ${error instanceof Error ? error.message : "Unknown error"}`
-        );
-        setUploading(false);
-        resetProgress();
-        setPendingFile(null);
+        failProcessing(error);
         throw error;
       }
     },
-    [setStatus, setUploading, setProgress, resetProgress]
+    [setStatus, setUploading, setProgress, failProcessing]
   );
 
   const continueProcessingAfterUpload = useCallback(async (
     fileMetadata: FileMetadata,
-    targetLanguage: string
+    targetLanguage: string,
+    captionStyle?: CaptionStylePresetName
   ) => {
     try {
       setStatus("Processing");
       setProgress(50);
 
       // Call handleUploadComplete which will handle the R2 key extraction and API call
-      const { r2Key, jobId } = await handleUploadComplete(fileMetadata, targetLanguage);
+      const { r2Key, jobId } = await handleUploadComplete(fileMetadata, targetLanguage, captionStyle);
 
       if (!jobId) {
         throw new Error("No job ID returned from server");
       }
 
-      setJobId(jobId);
       setProgress(100);
       setUploading(false);
-      setStatus("Queued");
       setPendingFile(null);
-
-      // Start polling for job status
-      startPolling(jobId, setStatus, setStatusInterval);
+      trackJob(jobId);
 
       return { r2Key, jobId };
     } catch (error) {
       console.error("Error processing after upload:", error);
-      setStatus(
-        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
-      setUploading(false);
-      resetProgress();
-      setPendingFile(null);
+      failProcessing(error);
       throw error;
     }
-  }, [
-    handleUploadComplete,
-    setStatus,
-    setJobId,
-    setStatusInterval,
-    setUploading,
-    setProgress,
-    resetProgress,
-    startPolling,
-  ]);
+  }, [handleUploadComplete, setStatus, setUploading, setProgress, trackJob, failProcessing]);
 
   const retryProcessing = useCallback(async () => {
     if (pendingFile && uploadState.fileMetadata) {
       try {
-        await retryUploadComplete(uploadState.fileMetadata, pendingFile.targetLanguage);
+        await retryUploadComplete(
+          uploadState.fileMetadata,
+          pendingFile.targetLanguage,
+          pendingFile.captionStyle
+        );
       } catch (error) {
         console.error("Retry failed:", error);
         throw error;
@@ -0,0 +1,74 @@
+"use client";
+
+import { Dispatch, SetStateAction, useCallback } from "react";
+
+import { CaptionStylePresetName } from "@/shared/subtitles/styles";
+
+import { UploadState } from "./useUploadState";
+
+export interface RenderRequest {
+  r2Key: string;
+  targetLanguage: string;
+  captionStyle?: CaptionStylePresetName;
+  // Sent with every retry so the server returns the job the first attempt started
+  idempotencyKey: string;
+}
+
+async function postRenderJob(renderRequest: RenderRequest): Promise<string> {
+  const { r2Key, targetLanguage, captionStyle, idempotencyKey } = renderRequest;
+  const response = await fetch("/api/jobs/render", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Idempotency-Key": idempotencyKey,
+    },
+    body: JSON.stringify({
+      r2Key,
+      targetLangs: [targetLanguage],
+      captionStyle,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to start processing");
+  }
+
+  const result = await response.json();
+  return result.jobId;
+}
+
+// Starts a render job, retrying failed requests and reporting retries in the upload state
+export function useRenderJobRequest(setUploadState: Dispatch<SetStateAction<UploadState>>) {
+  const startRenderJob = useCallback(
+    async (renderRequest: RenderRequest, retryAttempt = 0): Promise<string> => {
+      try {
+        return await postRenderJob(renderRequest);
+      } catch (error) {
+        // Retry logic for network errors or server issues
+        if (retryAttempt < 2) { // Max 3 attempts (0, 1, 2)
+          setUploadState((prev) => ({
+            ...prev,
+            isRetrying: true,
+            retryCount: retryAttempt + 1,
+          }));
+
+          // Exponential backoff: 1s, 2s, 4s
+          const delay = Math.pow(2, retryAttempt) * 1000;
+          await new Promise((resolve) => setTimeout(resolve, delay));
+
+          setUploadState((prev) => ({
+            ...prev,
+            isRetrying: false,
+          }));
+
+          return startRenderJob(renderRequest, retryAttempt + 1);
+        }
+        throw error;
+      }
+    },
+    [setUploadState]
+  );
+
+  return { startRenderJob };
+}
@@ -4,46 +4,63 @@
 
 import { useCallback } from "react";
 
+import { describeJobError } from "@/shared/jobs/errors";
+import type { JobStatusResponse } from "@/shared/jobs/response";
+import { ACTIVE_JOB_STATUSES } from "@/shared/jobs/state";
+
+const POLL_INTERVAL_MS = 2000;
+
+export function describeJobStatus(job: JobStatusResponse): string {
+  if (job.status === "done") return "Done";
+  if (job.status === "failed") return `Error: ${describeJobError(job.reason)}`;
+  if (job.status === "cancelled") return "Cancelled";
+  // While running, show the workflow stage (transcribing, rendering, ...)
+  if (job.status === "running" && job.stage) return job.stage;
+  return job.status;
+}
+
+// Anything that isn't queued or running, including statuses we don't know, ends updates
+export function isJobFinished(job: JobStatusResponse): boolean {
+  return !ACTIVE_JOB_STATUSES.includes(job.status);
+}
+
 export function useStatusPolling() {
   const startPolling = useCallback(
-    async (
-      _jobId: string,
-      _setStatus: (_status: string) => void,
-      setStatusInterval: (_interval: NodeJS.Timeout | null) => void
+    (
+      jobId: string,
+      setStatus: (status: string) => void,
+      setStopUpdates: (stop: (() => void) | null) => void
     ) => {
-      const _interval = setInterval(async () => {
+      const interval = setInterval(async () => {
         try {
-          const statusResponse = await fetch(`/api/jobs/${_jobId}`);
+          const statusResponse = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`);
 
           if (!statusResponse.ok) {
             if (statusResponse.status === 404) {
-              clearInterval(_interval);
-              setStatusInterval(null);
-              _setStatus("Error: Job not found");
+              stop();
+              setStatus("Error: Job not found");
               return;
             }
             throw new Error("Failed to check job status");
           }
 
-          const jobData = await statusResponse.json();
-          const newStatus = jobData.status;
-          _setStatus(newStatus);
-
-          if (newStatus === "completed") {
-            clearInterval(_interval);
-            setStatusInterval(null);
-            _setStatus("Done");
-          } else if (newStatus === "failed") {
-            clearInterval(_interval);
-            setStatusInterval(null);
-            _setStatus(`Error: ${jobData.error || "Processing failed"}`);
+          const job = (await statusResponse.json()) as JobStatusResponse;
+          setStatus(describeJobStatus(job));
+
+          if (isJobFinished(job)) {
+            stop();
           }
         } catch (error) {
           console.error("Error checking job status:", error);
         }
-      }, 2000);
+      }, POLL_INTERVAL_MS);
+
+      const stop = () => {
+        clearInterval(interval);
+        setStopUpdates(null);
+      };
 
-      setStatusInterval(_interval);
+      setStopUpdates(stop);
     },
     []
   );
@@ -0,0 +1,59 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+export interface FileMetadata {
+  key: string;
+  size: number;
+  mime: string;
+  url: string;
+  name: string;
+}
+
+export interface UploadState {
+  isUploading: boolean;
+  uploadProgress: number;
+  fileMetadata: FileMetadata | null;
+  error: string | null;
+  retryCount: number;
+  isRetrying: boolean;
+}
+
+const INITIAL_UPLOAD_STATE: UploadState = {
+  isUploading: false,
+  uploadProgress: 0,
+  fileMetadata: null,
+  error: null,
+  retryCount: 0,
+  isRetrying: false,
+};
+
+// Upload state shared by the API processing hooks, with setters for single fields
+export function useUploadState() {
+  const [uploadState, setUploadState] = useState<UploadState>(INITIAL_UPLOAD_STATE);
+
+  const setFileMetadata = useCallback((fileMetadata: FileMetadata | null) => {
+    setUploadState((prev) => ({ ...prev, fileMetadata }));
+  }, []);
+
+  const setUploading = useCallback((isUploading: boolean) => {
+    setUploadState((prev) => ({ ...prev, isUploading }));
+  }, []);
+
+  const setError = useCallback((error: string | null) => {
+    setUploadState((prev) => ({ ...prev, error }));
+  }, []);
+
+  const resetUploadState = useCallback(() => {
+    setUploadState(INITIAL_UPLOAD_STATE);
+  }, []);
+
+  return {
+    uploadState,
+    setUploadState,
+    setFileMetadata,
+    setUploading,
+    setError,
+    resetUploadState,
+  };
+}
@@ -1,9 +1,11 @@
 "use client";
 
 import { useCallback } from "react";
+
 import { useFileState } from "./hooks/useFileState";
 import { useUploadHandlers } from "./hooks/useUploadHandlers";
 import { useProcessingLogic } from "./hooks/useProcessingLogic";
+import { FileMetadata } from "./hooks/useUploadState";
 import { MainContent } from "./components/MainContent";
 
 export default function Home() {
@@ -13,6 +15,8 @@ export default function Home() {
     videoUrl,
     selectedLanguage,
     setSelectedLanguage,
+    captionStyle,
+    setCaptionStyle,
     setIsDragOver,
     handleFileSelected,
     handleFileDeleted,
@@ -23,6 +27,7 @@ export default function Home() {
     uploadProgress,
     isUploading,
     processingStatus,
+    currentJobId,
     handleCancelUpload,
     handleRenderSubtitles,
     handleUploadComplete,
@@ -33,30 +38,22 @@ export default function Home() {
 
   const uploadHandlers = useUploadHandlers({
     onFileSelected: handleFileSelected,
-    onFileDeleted: () => {
-      handleFileDeleted();
-    },
+    onFileDeleted: handleFileDeleted,
   });
 
   // Handler for when user clicks render button
   const handleRenderClick = useCallback(async () => {
     if (selectedFile && selectedLanguage) {
       try {
-        await handleRenderSubtitles(selectedFile, selectedLanguage);
+        await handleRenderSubtitles(selectedFile, selectedLanguage, captionStyle);
       } catch (error) {
         console.error("Error rendering subtitles:", error);
       }
     }
-  }, [selectedFile, selectedLanguage, handleRenderSubtitles]);
+  }, [selectedFile, selectedLanguage, captionStyle, handleRenderSubtitles]);
 
   // Handler for when UploadThing upload completes
-  const handleUploadThingComplete = useCallback(async (fileData: {
-    key: string;
-    size: number;
-    mime: string;
-    url: string;
-    name: string;
-  }) => {
+  const handleUploadThingComplete = useCallback(async (fileData: FileMetadata) => {
     try {
       await handleUploadComplete(fileData);
     } catch (error) {
@@ -71,11 +68,14 @@ export default function Home() {
       videoUrl={videoUrl}
       selectedLanguage={selectedLanguage}
       setSelectedLanguage={setSelectedLanguage}
+      captionStyle={captionStyle}
+      setCaptionStyle={setCaptionStyle}
       setIsDragOver={setIsDragOver}
       uploadHandlers={uploadHandlers}
       uploadProgress={uploadProgress}
       isUploading={isUploading}
       processingStatus={processingStatus}
+      jobId={currentJobId}
       handleRenderSubtitles={handleRenderClick}
       handleCancelUpload={handleCancelUpload}
       handleUploadThingComplete={handleUploadThingComplete}
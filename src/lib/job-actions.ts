@@ -0,0 +1,93 @@
+// Actions a client takes on its own jobs: cancelling and resuming them
+
+import {
+  canTransition,
+  getJobStore,
+  InvalidJobTransitionError,
+  JobAccessDeniedError,
+  JobLimitExceededError,
+  JobNotFoundError,
+  JobRecord,
+} from '@/shared/jobs';
+import { getR2Storage } from '@/shared/storage';
+
+import { addJobEvent, checkConcurrencyLimits } from './jobs';
+
+// Look up a job on behalf of a client, which may only act on jobs it created
+async function getOwnedJob(jobId: string, ip: string): Promise<JobRecord> {
+  const job = await getJobStore().getJob(jobId);
+  if (!job) {
+    throw new JobNotFoundError(jobId);
+  }
+  if (job.ip !== ip) {
+    throw new JobAccessDeniedError(jobId);
+  }
+  return job;
+}
+
+/**
+ * Cancel a job on behalf of the client that created it
+ * @param jobId - Unique identifier for the job
+ * @param ip - Client IP address of the requester
+ * @returns The cancelled job record
+ * @throws JobNotFoundError if job not found
+ * @throws JobAccessDeniedError if the job was created from another IP
+ * @throws InvalidJobTransitionError if the job has already finished
+ */
+export async function cancelJob(jobId: string, ip: string): Promise<JobRecord> {
+  const job = await getOwnedJob(jobId, ip);
+  if (!canTransition(job.status, 'cancelled')) {
+    throw new InvalidJobTransitionError(job.status, 'cancelled');
+  }
+
+  const reason = 'Job cancelled by user';
+  const cancelled = await getJobStore().updateJob(jobId, { status: 'cancelled', reason });
+  await addJobEvent(jobId, {
+    type: 'cancelled',
+    data: { reason }
+  });
+
+  return cancelled;
+}
+
+/**
+ * Delete a job's uploaded source video from R2 (the workflow removes its own outputs)
+ * @param job - Job whose source upload should be removed
+ */
+export async function deleteJobSource(job: JobRecord): Promise<void> {
+  await getR2Storage().deleteFromR2(job.r2Key);
+}
+
+/**
+ * Queue a failed job again so a new workflow run can resume from its checkpoints
+ * @param jobId - Unique identifier for the job
+ * @param ip - Client IP address of the requester
+ * @returns The re-queued job record and how many times it has been resumed
+ * @throws JobNotFoundError if job not found
+ * @throws JobAccessDeniedError if the job was created from another IP
+ * @throws InvalidJobTransitionError if the job has not failed
+ * @throws JobLimitExceededError if the IP already has its maximum of active jobs
+ */
+export async function resumeJob(jobId: string, ip: string): Promise<{ job: JobRecord; resumeCount: number }> {
+  const job = await getOwnedJob(jobId, ip);
+  if (!canTransition(job.status, 'queued')) {
+    throw new InvalidJobTransitionError(job.status, 'queued');
+  }
+
+  const limit = await checkConcurrencyLimits(ip);
+  if (!limit.valid) {
+    throw new JobLimitExceededError(limit.error!);
+  }
+
+  // Counted in the write that queues the job, so no two resumes get the same count
+  const resumed = await getJobStore().updateJob(jobId, (current) => ({
+    status: 'queued',
+    stage: undefined,
+    reason: undefined,
+    resumeCount: (current.resumeCount ?? 0) + 1,
+  }));
+  const resumeCount = resumed.resumeCount ?? 1;
+  await addJobEvent(jobId, { type: 'resumed', data: { resumeCount, previousReason: job.reason } });
+
+  return { job: resumed, resumeCount };
+}
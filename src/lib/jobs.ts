@@ -1,52 +1,47 @@
 // Job management utilities for tracking active jobs, status, and events
 
-interface Job {
-  id: string;
-  ip: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
-  createdAt: Date;
-  updatedAt: Date;
-  events: JobEvent[];
-}
-
-interface JobEvent {
-  timestamp: Date;
-  type: string;
-  data: object;
-}
+import {
+  ACTIVE_JOB_STATUSES,
+  getJobStore,
+  JobLimitExceededError,
+  JobRecord,
+  JobStatus,
+  NewJob,
+  NewJobEvent,
+} from '@/shared/jobs';
 
-// In-memory store for tracking active jobs
-const activeJobs = new Map<string, Job>();
 const MAX_CONCURRENT_JOBS_PER_IP = 3;
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
 
 /**
- * Track an active job and enforce concurrency limits
- * @param jobId - Unique identifier for the job
- * @param ip - Client IP address for rate limiting
- * @throws Error if concurrent job limit is exceeded
+ * Check whether an IP may start another job. Only the IP's active-job index
+ * is read, and a job frees its slot as soon as its stored status is final.
+ * @param ip - Client IP address
+ * @returns Whether the IP is under its limit, with an error message if not
  */
-export function trackActiveJob(jobId: string, ip: string): void {
-  // Count active jobs for this IP
-  const ipJobCount = Array.from(activeJobs.values()).filter(
-    job => job.ip === ip &&
-           ['pending', 'processing'].includes(job.status)
-  ).length;
+export async function checkConcurrencyLimits(ip: string): Promise<{ valid: boolean; error?: string }> {
+  const ipJobCount = (await getActiveJobsByIp(ip)).length;
 
   if (ipJobCount >= MAX_CONCURRENT_JOBS_PER_IP) {
-    throw new Error(`Maximum concurrent jobs (${MAX_CONCURRENT_JOBS_PER_IP}) exceeded for IP: ${ip}`);
+    return { valid: false, error: `Maximum ${MAX_CONCURRENT_JOBS_PER_IP} concurrent jobs allowed per IP` };
   }
 
-  // Create and track the job
-  const job: Job = {
-    id: jobId,
-    ip,
-    status: 'pending',
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    events: []
-  };
+  return { valid: true };
+}
 
-  activeJobs.set(jobId, job);
+/**
+ * Track an active job and enforce concurrency limits
+ * @param job - Identity and input of the job to create
+ * @returns The persisted job record
+ * @throws JobLimitExceededError if concurrent job limit is exceeded
+ */
+export async function trackActiveJob(job: NewJob): Promise<JobRecord> {
+  const limit = await checkConcurrencyLimits(job.ip);
+  if (!limit.valid) {
+    throw new JobLimitExceededError(limit.error!);
+  }
+
+  return getJobStore().createJob(job);
 }
 
 /**
@@ -54,8 +49,8 @@ export function trackActiveJob(jobId: string, ip: string): void {
  * @param jobId - Unique identifier for the job
  * @returns Job status or null if job not found
  */
-export function getJobStatus(jobId: string): Job['status'] | null {
-  const job = activeJobs.get(jobId);
+export async function getJobStatus(jobId: string): Promise<JobStatus | null> {
+  const job = await getJobStore().getJob(jobId);
   return job ? job.status : null;
 }
 
@@ -64,53 +59,37 @@ export function getJobStatus(jobId: string): Job['status'] | null {
  * @param jobId - Unique identifier for the job
  * @returns Complete job object or null if job not found
  */
-export function getJob(jobId: string): Job | null {
-  return activeJobs.get(jobId) || null;
+export async function getJob(jobId: string): Promise<JobRecord | null> {
+  return getJobStore().getJob(jobId);
 }
 
 /**
  * Update the status of a job
  * @param jobId - Unique identifier for the job
  * @param status - New status for the job
- * @throws Error if job not found
+ * @throws JobNotFoundError if job not found
+ * @throws InvalidJobTransitionError if the status change is not allowed
  */
-export function updateJobStatus(jobId: string, status: Job['status']): void {
-  const job = activeJobs.get(jobId);
-  if (!job) {
-    throw new Error(`Job not found: ${jobId}`);
-  }
-
-  job.status = status;
-  job.updatedAt = new Date();
+export async function updateJobStatus(jobId: string, status: JobStatus): Promise<void> {
+  await getJobStore().updateJob(jobId, { status });
 }
 
 /**
  * Add an event to a job's event log
  * @param jobId - Unique identifier for the job
  * @param event - Event object to record
- * @throws Error if job not found
+ * @throws JobNotFoundError if job not found
  */
-export function addJobEvent(jobId: string, event: Omit<JobEvent, 'timestamp'>): void {
-  const job = activeJobs.get(jobId);
-  if (!job) {
-    throw new Error(`Job not found: ${jobId}`);
-  }
-
-  const jobEvent: JobEvent = {
-    ...event,
-    timestamp: new Date()
-  };
-
-  job.events.push(jobEvent);
-  job.updatedAt = new Date();
+export async function addJobEvent(jobId: string, event: NewJobEvent): Promise<void> {
+  await getJobStore().appendEvent(jobId, event);
 }
 
 /**
- * Remove a job from tracking (cleanup)
- * @param jobId - Unique identifier for the job
+ * Delete jobs that finished longer ago than the retention period
+ * @returns How many jobs were deleted
  */
-export function cleanupJob(jobId: string): void {
-  activeJobs.delete(jobId);
+export async function cleanupFinishedJobs(): Promise<number> {
+  return getJobStore().deleteFinishedJobs(new Date(Date.now() - FINISHED_JOB_RETENTION_MS));
 }
 
 /**
@@ -118,54 +97,30 @@ export function cleanupJob(jobId: string): void {
  * @param ip - Client IP address
  * @returns Array of active jobs for the IP
  */
-export function getActiveJobsByIp(ip: string): Job[] {
-  return Array.from(activeJobs.values()).filter(
-    job => job.ip === ip && ['pending', 'processing'].includes(job.status)
-  );
+export async function getActiveJobsByIp(ip: string): Promise<JobRecord[]> {
+  return getJobStore().listActiveJobs(ip);
 }
 
 /**
  * Get statistics about active jobs
  * @returns Object containing job statistics
  */
-export function getJobStats(): {
+export async function getJobStats(): Promise<{
   totalActiveJobs: number;
-  jobsByStatus: Record<Job['status'], number>;
+  jobsByStatus: Partial<Record<JobStatus, number>>;
   uniqueIps: number;
-} {
-  const jobs = Array.from(activeJobs.values());
+}> {
+  const jobs = await getJobStore().listJobs();
   const jobsByStatus = jobs.reduce((acc, job) => {
     acc[job.status] = (acc[job.status] || 0) + 1;
     return acc;
-  }, {} as Record<Job['status'], number>);
+  }, {} as Partial<Record<JobStatus, number>>);
 
   const uniqueIps = new Set(jobs.map(job => job.ip)).size;
 
   return {
-    totalActiveJobs: jobs.filter(job => ['pending', 'processing'].includes(job.status)).length,
+    totalActiveJobs: jobs.filter(job => ACTIVE_JOB_STATUSES.includes(job.status)).length,
     jobsByStatus,
     uniqueIps
   };
 }
-
-/**
- * Cancel a job
- * @param jobId - Unique identifier for the job
- * @throws Error if job not found or job is already completed
- */
-export function cancelJob(jobId: string): void {
-  const job = activeJobs.get(jobId);
-  if (!job) {
-    throw new Error(`Job not found: ${jobId}`);
-  }
-
-  if (['completed', 'failed', 'cancelled'].includes(job.status)) {
-    throw new Error(`Cannot cancel job with status: ${job.status}`);
-  }
-
-  updateJobStatus(jobId, 'cancelled');
-  addJobEvent(jobId, {
-    type: 'cancelled',
-    data: { reason: 'Job cancelled by user' }
-  });
-}
\ No newline at end of file
@@ -0,0 +1,146 @@
+// Body of POST /api/jobs/render and its validation
+
+import { RENDER_MODES, RenderMode, STT_PROVIDERS, SttProviderName } from '@/shared/jobs';
+import {
+  getEnabledLanguages,
+  getSupportedSourceLanguages,
+  isEnabledLanguage,
+  isSupportedSourceLanguage,
+  MAX_TARGET_LANGUAGES,
+} from '@/shared/languages';
+import { CaptionStyleRequest, validateCaptionStyle } from '@/shared/subtitles';
+
+export interface RenderJobRequest {
+  r2Key: string;
+  targetLangs?: string[];
+  // Single-language form, kept for older clients
+  targetLang?: string;
+  // Spoken language hint for transcription; detected when omitted
+  sourceLang?: string;
+  // Honoured only where isSttOverrideAllowed(); otherwise the worker's STT_PROVIDER is used
+  sttProvider?: SttProviderName;
+  // Burned-in captions (default), soft subtitle tracks, or both
+  mode?: RenderMode;
+  // Preset name, or a preset with overrides; see CaptionStyleRequest
+  captionStyle?: CaptionStyleRequest;
+  // Same key on every retry of one render; the Idempotency-Key header takes precedence
+  idempotencyKey?: string;
+}
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Read the client's idempotency key from the Idempotency-Key header, falling
+ * back to the body field
+ */
+export function getIdempotencyKey(request: Request, body: RenderJobRequest): string | undefined {
+  return request.headers.get('idempotency-key') ?? body.idempotencyKey;
+}
+
+/**
+ * Runs started for one client key share a Trigger.dev idempotency key too.
+ * The claim's attempt moves it on once a key is retried after its job failed.
+ */
+export function getTriggerIdempotencyKey(clientIP: string, idempotencyKey: string, attempt: number): string {
+  return `${clientIP}:${idempotencyKey}:${attempt}`;
+}
+
+/**
+ * Per-request STT overrides can pick the canned "fake" transcript or an
+ * engine the worker may not have, so production ignores them unless
+ * ALLOW_STT_OVERRIDE=1.
+ */
+export function isSttOverrideAllowed(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.ALLOW_STT_OVERRIDE === '1';
+}
+
+export function getTargetLangs(body: RenderJobRequest): string[] {
+  const requested = body.targetLangs ?? (body.targetLang ? [body.targetLang] : []);
+  return Array.from(new Set(requested));
+}
+
+function validateTargetLangs(targetLangs: string[]): {
+  valid: boolean;
+  error?: string;
+} {
+  if (targetLangs.length > MAX_TARGET_LANGUAGES) {
+    return {
+      valid: false,
+      error: `At most ${MAX_TARGET_LANGUAGES} target languages are allowed per job`,
+    };
+  }
+
+  const unsupported = targetLangs.find((code) => !isEnabledLanguage(code));
+  if (unsupported) {
+    const supported = getEnabledLanguages().map(({ code }) => code);
+    return {
+      valid: false,
+      error: `Unsupported target language "${unsupported}"; supported: ${supported.join(', ')}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+// Helper function to validate request body
+export function validateRequestBody(body: RenderJobRequest): {
+  valid: boolean;
+  error?: string;
+} {
+  const targetLangs = getTargetLangs(body);
+  if (!body.r2Key || targetLangs.length === 0) {
+    return {
+      valid: false,
+      error: 'Missing required fields: r2Key and targetLangs',
+    };
+  }
+
+  const targetValidation = validateTargetLangs(targetLangs);
+  if (!targetValidation.valid) {
+    return targetValidation;
+  }
+
+  const key = body.idempotencyKey;
+  if (key !== undefined && (typeof key !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(key))) {
+    return {
+      valid: false,
+      error: 'idempotencyKey must be 1-128 letters, digits or ._:- characters',
+    };
+  }
+
+  return validateJobOptions(body);
+}
+
+// Optional fields that tune how the job runs
+function validateJobOptions(body: RenderJobRequest): {
+  valid: boolean;
+  error?: string;
+} {
+  if (body.sourceLang && !isSupportedSourceLanguage(body.sourceLang)) {
+    return {
+      valid: false,
+      error: `sourceLang must be one of: ${getSupportedSourceLanguages().join(', ')}`,
+    };
+  }
+
+  if (body.sttProvider && !STT_PROVIDERS.includes(body.sttProvider)) {
+    return {
+      valid: false,
+      error: `sttProvider must be one of: ${STT_PROVIDERS.join(', ')}`,
+    };
+  }
+
+  if (body.mode && !RENDER_MODES.includes(body.mode)) {
+    return {
+      valid: false,
+      error: `mode must be one of: ${RENDER_MODES.join(', ')}`,
+    };
+  }
+
+  const styleError = body.captionStyle === undefined ? null : validateCaptionStyle(body.captionStyle);
+  if (styleError) {
+    return { valid: false, error: styleError };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,36 @@
+// Server-Sent Events wire-format helpers
+
+export interface SseMessage {
+  id?: string;
+  event?: string;
+  data: unknown;
+}
+
+/**
+ * Format a message as an SSE frame
+ * @param message - Optional id and event name plus a JSON-serialisable payload
+ * @returns The frame text, terminated by a blank line
+ */
+export function formatSseMessage({ id, event, data }: SseMessage): string {
+  const lines: string[] = [];
+  if (id !== undefined) lines.push(`id: ${id}`);
+  if (event) lines.push(`event: ${event}`);
+  lines.push(`data: ${JSON.stringify(data)}`);
+  return `${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Format an SSE comment, used as a heartbeat to keep proxies from closing idle streams
+ * @param text - Comment text
+ * @returns The comment frame
+ */
+export function formatSseComment(text: string): string {
+  return `: ${text}\n\n`;
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
@@ -0,0 +1,49 @@
+// Helpers for driving the Trigger.dev render workflow from API routes
+
+import { idempotencyKeys, runs, tasks } from '@trigger.dev/sdk/v3';
+
+import type { RenderWorkflow, RenderWorkflowInput } from '@/trigger/example';
+
+/**
+ * Trigger the render-workflow task for a job
+ * @param payload - Workflow input
+ * @param key - Idempotency key; payload.jobId when omitted, so the same job can
+ *   never start a second run. Requests with a client key pass one built from it.
+ * @returns The Trigger.dev run id, or an error message if triggering failed
+ */
+export async function triggerRenderWorkflow(
+  payload: RenderWorkflowInput,
+  key: string = payload.jobId
+): Promise<{ runId: string; error?: string }> {
+  try {
+    const idempotencyKey = await idempotencyKeys.create(key, {
+      scope: 'global',
+    });
+
+    const handle = await tasks.trigger<typeof RenderWorkflow>(
+      'render-workflow',
+      payload,
+      { idempotencyKey, tags: [payload.jobId] }
+    );
+
+    return { runId: handle.id };
+  } catch (error) {
+    console.error('Failed to trigger render workflow:', error);
+    return { runId: '', error: 'Failed to trigger render workflow' };
+  }
+}
+
+/**
+ * Cancel a render-workflow run
+ * @param runId - Trigger.dev run id stored on the job
+ * @returns An error message if the run could not be cancelled
+ */
+export async function cancelRenderWorkflow(runId: string): Promise<{ error?: string }> {
+  try {
+    await runs.cancel(runId);
+    return {};
+  } catch (error) {
+    console.error('Failed to cancel render workflow:', error);
+    return { error: 'Failed to cancel render workflow' };
+  }
+}
@@ -0,0 +1,192 @@
+/* eslint-disable no-unused-vars */
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+
+import { R2VersionedJson, R2WriteCondition } from "../../storage/types";
+import { FileJobStore } from "../file-store";
+import { MemoryJobStore } from "../memory-store";
+import { JobObjectStorage, R2JobStore } from "../r2-store";
+import { InvalidJobTransitionError } from "../state";
+import { JobStore, StoredObject } from "../store";
+
+// Two stores over one backend stand in for two app instances
+type StorePair = [JobStore, JobStore];
+
+// Mimics R2's conditional PUT: a stale If-Match or an existing key under If-None-Match fails
+class FakeBucket implements JobObjectStorage {
+  private objects = new Map<string, R2VersionedJson<string>>();
+  private writes = 0;
+
+  async getVersionedJsonFromR2<T>(key: string): Promise<R2VersionedJson<T> | null> {
+    const stored = this.objects.get(key);
+    return stored ? { value: JSON.parse(stored.value) as T, etag: stored.etag } : null;
+  }
+
+  async putJsonToR2(key: string, value: unknown, condition: R2WriteCondition = {}): Promise<boolean> {
+    const current = this.objects.get(key);
+    if (condition.ifNoneMatch && current) return false;
+    if (condition.ifMatch && current?.etag !== condition.ifMatch) return false;
+
+    this.objects.set(key, { value: JSON.stringify(value), etag: `"${++this.writes}"` });
+    return true;
+  }
+
+  async listKeysInR2(prefix: string): Promise<string[]> {
+    return Array.from(this.objects.keys()).filter((key) => key.startsWith(prefix));
+  }
+
+  async deleteFromR2(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+}
+
+const directories: string[] = [];
+
+const BACKENDS: Record<string, () => Promise<StorePair>> = {
+  memory: async () => {
+    const objects = new Map<string, StoredObject<unknown>>();
+    return [new MemoryJobStore(objects), new MemoryJobStore(objects)];
+  },
+  file: async () => {
+    const directory = await mkdtemp(join(tmpdir(), "job-store-"));
+    directories.push(directory);
+    return [new FileJobStore(directory), new FileJobStore(directory)];
+  },
+  r2: async () => {
+    const bucket = new FakeBucket();
+    return [new R2JobStore("jobs/", bucket), new R2JobStore("jobs/", bucket)];
+  },
+};
+
+function newJob(id: string, ip: string = "203.0.113.7") {
+  return { id, ip, r2Key: `uploads/${id}.mp4`, targetLangs: ["fr"] };
+}
+
+async function listActiveIds(store: JobStore, ip: string): Promise<string[]> {
+  return (await store.listActiveJobs(ip)).map(({ id }) => id).sort();
+}
+
+after(async () => {
+  await Promise.all(directories.map((directory) => rm(directory, { recursive: true, force: true })));
+});
+
+// Each case runs against two instances of one backend
+const CASES: Record<string, (stores: StorePair) => Promise<void>> = {
+  "creates a job id only once": async ([first, second]) => {
+    const results = await Promise.allSettled([first.createJob(newJob("job-1")), second.createJob(newJob("job-1"))]);
+
+    assert.deepEqual(results.map(({ status }) => status).sort(), ["fulfilled", "rejected"]);
+  },
+
+  "keeps every event appended from two instances": async ([first, second]) => {
+    await first.createJob(newJob("job-1"));
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        (index % 2 ? second : first).appendEvent("job-1", { type: "progress", data: { index } })
+      )
+    );
+
+    const events = await first.listEvents("job-1");
+    assert.deepEqual(events.map(({ seq }) => seq), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    assert.deepEqual(
+      events.map(({ data }) => data?.index).sort((a, b) => Number(a) - Number(b)),
+      [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]
+    );
+  },
+
+  "runs updaters against the job as stored": async ([first, second]) => {
+    await first.createJob(newJob("job-1"));
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        (index % 2 ? second : first).updateJob("job-1", (job) => ({ progress: (job.progress ?? 0) + 1 }))
+      )
+    );
+
+    assert.equal((await first.getJob("job-1"))?.progress, 10);
+  },
+
+  "never lets a stale running update overwrite a cancellation": async ([first, second]) => {
+    await first.createJob(newJob("job-1"));
+    await first.updateJob("job-1", { status: "running" });
+
+    const [cancel, progress] = await Promise.allSettled([
+      first.updateJob("job-1", { status: "cancelled" }),
+      second.updateJob("job-1", { status: "running", progress: 50 }),
+    ]);
+
+    assert.equal(cancel.status, "fulfilled");
+    if (progress.status === "rejected") {
+      assert.ok(progress.reason instanceof InvalidJobTransitionError);
+    }
+    assert.equal((await second.getJob("job-1"))?.status, "cancelled");
+  },
+
+  "lists an IP's active jobs until they finish": async ([first, second]) => {
+    await first.createJob(newJob("job-1"));
+    await second.createJob(newJob("job-2"));
+    await first.createJob(newJob("job-3", "2001:db8::1"));
+
+    assert.deepEqual(await listActiveIds(first, "203.0.113.7"), ["job-1", "job-2"]);
+    assert.deepEqual(await listActiveIds(second, "2001:db8::1"), ["job-3"]);
+
+    await second.updateJob("job-1", { status: "failed" });
+    assert.deepEqual(await listActiveIds(first, "203.0.113.7"), ["job-2"]);
+
+    // Resuming a failed job takes its slot again
+    await first.updateJob("job-1", { status: "queued" });
+    assert.deepEqual(await listActiveIds(second, "203.0.113.7"), ["job-1", "job-2"]);
+  },
+
+  "deletes finished jobs older than the cutoff": async ([first, second]) => {
+    await first.createJob(newJob("job-1"));
+    await first.createJob(newJob("job-2"));
+    await second.updateJob("job-1", { status: "cancelled" });
+
+    assert.equal(await first.deleteFinishedJobs(new Date(Date.now() - 60000)), 0);
+    assert.equal(await first.deleteFinishedJobs(new Date(Date.now() + 60000)), 1);
+    assert.equal(await second.getJob("job-1"), null);
+    assert.deepEqual(await listActiveIds(second, "203.0.113.7"), ["job-2"]);
+  },
+
+  "hands an idempotency key to the first of concurrent claims": async ([first, second]) => {
+    const claims = await Promise.all([
+      first.claimIdempotencyKey("203.0.113.7", "upload-1", "job-1"),
+      second.claimIdempotencyKey("203.0.113.7", "upload-1", "job-2"),
+    ]);
+
+    assert.equal(claims[0].jobId, claims[1].jobId);
+    assert.equal(claims[0].attempt, 1);
+    // The same key from another client is a different request
+    assert.equal((await first.claimIdempotencyKey("2001:db8::1", "upload-1", "job-3")).jobId, "job-3");
+  },
+
+  "lets an idempotency key be claimed again once its job failed": async ([first, second]) => {
+    await first.claimIdempotencyKey("203.0.113.7", "upload-1", "job-1");
+    await first.createJob({ ...newJob("job-1"), idempotencyKey: "upload-1" });
+    assert.equal((await second.claimIdempotencyKey("203.0.113.7", "upload-1", "job-2")).jobId, "job-1");
+
+    await first.updateJob("job-1", { status: "failed" });
+    const claim = await second.claimIdempotencyKey("203.0.113.7", "upload-1", "job-2");
+    assert.deepEqual([claim.jobId, claim.attempt], ["job-2", 2]);
+
+    // Only the claim's own job can release it
+    await first.releaseIdempotencyKey("203.0.113.7", "upload-1", "job-1");
+    assert.equal((await first.claimIdempotencyKey("203.0.113.7", "upload-1", "job-3")).jobId, "job-2");
+    await first.releaseIdempotencyKey("203.0.113.7", "upload-1", "job-2");
+    assert.equal((await first.claimIdempotencyKey("203.0.113.7", "upload-1", "job-3")).jobId, "job-3");
+  },
+};
+
+for (const [backend, createStores] of Object.entries(BACKENDS)) {
+  describe(`${backend} job store`, () => {
+    for (const [name, run] of Object.entries(CASES)) {
+      it(name, async () => run(await createStores()));
+    }
+  });
+}
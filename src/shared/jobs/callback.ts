@@ -0,0 +1,28 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const JOB_CALLBACK_SIGNATURE_HEADER = "x-job-signature";
+
+// Reject callbacks whose timestamp is further than this from the server clock
+const MAX_CALLBACK_SKEW_MS = 5 * 60 * 1000;
+
+export function signCallbackBody(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+export function verifyCallbackSignature(
+  body: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature) return false;
+
+  const expected = Buffer.from(signCallbackBody(body, secret));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export function isCallbackTimestampFresh(timestamp: string, now: number = Date.now()): boolean {
+  const sentAt = Date.parse(timestamp);
+  return Number.isFinite(sentAt) && Math.abs(now - sentAt) <= MAX_CALLBACK_SKEW_MS;
+}
@@ -0,0 +1,28 @@
+// User-facing messages for the error codes the workflow stores as a job's reason.
+// Client-safe: used by the status hooks to explain failures.
+
+export const JOB_ERROR_MESSAGES: Record<string, string> = {
+  TOO_LONG: "The video is too long. Please upload a shorter clip.",
+  NO_AUDIO: "The video has no audio track to caption.",
+  UNSUPPORTED: "This video format or codec isn't supported.",
+  PROBE_FAILED: "We couldn't read this video file.",
+  INVALID_MEDIA: "We couldn't read this video file.",
+  UNSUPPORTED_LANGUAGE: "The speech in this video is in a language we don't support yet.",
+  AUDIO_EXTRACTION_FAILED: "We couldn't extract the audio from this video.",
+  TRANSCRIPTION_FAILED: "Transcription failed. Please try again.",
+  TRANSLATION_FAILED: "Translation failed. Please try again.",
+  INVALID_RESPONSE: "Translation failed. Please try again.",
+  DOWNLOAD_FAILED: "We couldn't fetch your upload. Please try again.",
+  RENDER_FAILED: "Rendering the captioned video failed.",
+  UPLOAD_FAILED: "Saving the finished video failed. Please try again.",
+  LANGUAGE_RENDER_FAILED: "Captioning failed for one of the selected languages. Please try again.",
+  STEP_TIMEOUT: "Processing took too long. Please try again.",
+  WORKSPACE_QUOTA_EXCEEDED: "The video is too large to process.",
+  WORKFLOW_FAILED: "Processing failed. Please try again.",
+};
+
+// Reasons that aren't known codes (e.g. "Job cancelled by user") are shown as-is
+export function describeJobError(reason: string | undefined): string {
+  if (!reason) return "Processing failed";
+  return JOB_ERROR_MESSAGES[reason] ?? reason;
+}
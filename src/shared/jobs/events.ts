@@ -0,0 +1,135 @@
+import { JobStage } from "./state";
+import { JobStore } from "./store";
+import { JobEvent, JobOutput, JobPatch } from "./types";
+
+export type WorkflowStepName =
+  | "workflow"
+  | "download"
+  | "probe"
+  | "transcribe"
+  | "caption-agent"
+  | "render"
+  | "upload"
+  | "subtitles"
+  | "localize"
+  | "mux";
+
+export type StepPhase = "start" | "progress" | "done" | "error";
+
+const STEP_PHASES: StepPhase[] = ["start", "progress", "done", "error"];
+
+export interface StepEvent {
+  step: WorkflowStepName;
+  phase: StepPhase;
+  progress: number;
+  timestamp: string;
+  errorCode?: string;
+  message?: string;
+  outputUrl?: string;
+  outputs?: JobOutput[];
+  // Set on events from a per-language subtask
+  targetLang?: string;
+}
+
+// User-facing stage shown while a step is running
+export const STEP_STAGES: Partial<Record<WorkflowStepName, JobStage>> = {
+  download: "downloading",
+  probe: "validating",
+  transcribe: "transcribing",
+  "caption-agent": "translating",
+  render: "rendering",
+  upload: "uploading",
+  subtitles: "uploading",
+  localize: "translating",
+  mux: "rendering",
+};
+
+// Default overall progress (0-100) per step; the workflow engine reports
+// progress from its own step weights
+export const STEP_PROGRESS: Record<WorkflowStepName, [number, number]> = {
+  workflow: [0, 100],
+  download: [0, 10],
+  probe: [10, 15],
+  transcribe: [15, 45],
+  "caption-agent": [45, 65],
+  render: [65, 90],
+  upload: [90, 100],
+  subtitles: [95, 100],
+  localize: [45, 90],
+  mux: [90, 100],
+};
+
+export function isStepEvent(value: unknown): value is StepEvent {
+  const event = value as Partial<StepEvent> | null;
+  return (
+    !!event &&
+    typeof event.step === "string" &&
+    event.step in STEP_PROGRESS &&
+    STEP_PHASES.includes(event.phase as StepPhase) &&
+    typeof event.progress === "number" &&
+    typeof event.timestamp === "string"
+  );
+}
+
+// fraction (0-1) positions "progress" events between the step's start and done
+export function getStepProgress(
+  step: WorkflowStepName,
+  phase: StepPhase,
+  fraction: number = 0
+): number {
+  const [start, done] = STEP_PROGRESS[step];
+  if (phase === "done") return done;
+  if (phase === "progress") return Math.round(start + (done - start) * fraction);
+  return start;
+}
+
+function buildWorkflowPatch(event: StepEvent): JobPatch {
+  switch (event.phase) {
+    case "start":
+    case "progress":
+      return { status: "running", progress: event.progress };
+    case "done":
+      return {
+        status: "done",
+        progress: 100,
+        stage: undefined,
+        outputUrl: event.outputUrl,
+        outputs: event.outputs,
+      };
+    case "error":
+      return { status: "failed", reason: event.errorCode || event.message };
+  }
+}
+
+function buildStepPatch(event: StepEvent, currentProgress: number = 0): JobPatch {
+  return {
+    status: "running",
+    stage: STEP_STAGES[event.step],
+    // Language subtasks run in parallel, so only let their progress move forward
+    progress: event.targetLang ? Math.max(event.progress, currentProgress) : event.progress,
+  };
+}
+
+/**
+ * Fold a workflow step event into the job's status, stage and progress, then
+ * record it. Events that would move the job illegally (e.g. a late step after
+ * cancellation) throw InvalidJobTransitionError and are not recorded.
+ */
+export async function applyStepEvent(
+  store: JobStore,
+  jobId: string,
+  event: StepEvent
+): Promise<JobEvent> {
+  // A failed step leaves the job to the workflow's own error event
+  if (event.step === "workflow" || event.phase !== "error") {
+    // Built from the stored job, so a retried write sees the other subtasks' progress
+    await store.updateJob(jobId, (job) =>
+      event.step === "workflow" ? buildWorkflowPatch(event) : buildStepPatch(event, job.progress)
+    );
+  }
+
+  return store.appendEvent(jobId, {
+    type: `${event.step}.${event.phase}`,
+    data: { ...event },
+  });
+}
@@ -0,0 +1,111 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { dirname, join } from "path";
+
+import { RecordJobStore } from "./record-store";
+import { isValidStoreKey, StoredObject } from "./store";
+
+// A lock older than this was left behind by a writer that crashed
+const STALE_LOCK_MS = 10000;
+
+function hasErrorCode(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException)?.code === code;
+}
+
+function getVersion(contents: string): string {
+  return createHash("sha1").update(contents).digest("hex");
+}
+
+/**
+ * Persists one JSON document per key under a directory, so job state
+ * survives restarts as long as the directory lives on durable storage.
+ * Every process sharing the directory takes a lock file around each
+ * compare-and-set, so a write never lands on a version it didn't read.
+ */
+export class FileJobStore extends RecordJobStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    super();
+    this.directory = directory;
+  }
+
+  protected async readObject<T>(key: string): Promise<StoredObject<T> | null> {
+    const contents = await this.readContents(key);
+    return contents === null ? null : { value: JSON.parse(contents) as T, version: getVersion(contents) };
+  }
+
+  protected async writeObject(key: string, value: unknown, version: string | null): Promise<boolean> {
+    if (!isValidStoreKey(key)) {
+      throw new Error(`Invalid store key: ${key}`);
+    }
+
+    const target = this.objectPath(key);
+    await fs.mkdir(dirname(target), { recursive: true });
+    if (!(await this.acquireLock(target))) return false;
+
+    try {
+      const contents = await this.readContents(key);
+      if ((contents === null ? null : getVersion(contents)) !== version) return false;
+
+      // Write then rename so readers never observe a half-written file
+      const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(value), "utf8");
+      await fs.rename(temporary, target);
+      return true;
+    } finally {
+      await fs.rm(`${target}.lock`, { force: true });
+    }
+  }
+
+  protected async listKeys(prefix: string): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(join(this.directory, prefix));
+    } catch (error) {
+      if (hasErrorCode(error, "ENOENT")) return [];
+      throw error;
+    }
+
+    return entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) => `${prefix}${entry.slice(0, -".json".length)}`);
+  }
+
+  protected async removeObject(key: string): Promise<void> {
+    if (!isValidStoreKey(key)) return;
+    await fs.rm(this.objectPath(key), { force: true });
+  }
+
+  private async readContents(key: string): Promise<string | null> {
+    if (!isValidStoreKey(key)) return null;
+
+    try {
+      return await fs.readFile(this.objectPath(key), "utf8");
+    } catch (error) {
+      if (hasErrorCode(error, "ENOENT")) return null;
+      throw error;
+    }
+  }
+
+  // Exclusive create is atomic, so only one writer holds the lock; the others retry
+  private async acquireLock(target: string): Promise<boolean> {
+    const lock = `${target}.lock`;
+    try {
+      await fs.writeFile(lock, String(process.pid), { flag: "wx" });
+      return true;
+    } catch (error) {
+      if (!hasErrorCode(error, "EEXIST")) throw error;
+
+      const stats = await fs.stat(lock).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lock, { force: true });
+      }
+      return false;
+    }
+  }
+
+  private objectPath(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+}
@@ -0,0 +1,68 @@
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { FileJobStore } from "./file-store";
+import { MemoryJobStore } from "./memory-store";
+import { R2JobStore } from "./r2-store";
+import { JobStore } from "./store";
+
+export * from "./state";
+export * from "./types";
+export * from "./store";
+export * from "./object-store";
+export * from "./record-store";
+export * from "./events";
+export * from "./callback";
+export * from "./errors";
+export * from "./response";
+export { FileJobStore } from "./file-store";
+export { MemoryJobStore } from "./memory-store";
+export { R2JobStore } from "./r2-store";
+
+let jobStoreInstance: JobStore | null = null;
+
+/**
+ * Production needs a store every instance shares: memory never is, and a
+ * directory only is when JOB_STORE_DIR names a shared volume, which
+ * serverless hosts such as Vercel don't have (their /tmp is per instance).
+ */
+function assertSharedStore(backend: string): void {
+  if (process.env.NODE_ENV !== "production") return;
+
+  if (backend === "memory") {
+    throw new Error("JOB_STORE=memory is not shared between instances; use JOB_STORE=r2 in production");
+  }
+  if (backend === "file" && (!process.env.JOB_STORE_DIR || process.env.VERCEL)) {
+    throw new Error("JOB_STORE=file needs JOB_STORE_DIR on a volume shared by every instance; use JOB_STORE=r2 on serverless hosts");
+  }
+}
+
+/**
+ * JOB_STORE selects "r2" (the production default), "file" (the development
+ * default) or "memory". With "file", point JOB_STORE_DIR at a volume shared
+ * by the app and the workflow worker so both see the same jobs.
+ */
+export function getJobStore(): JobStore {
+  if (!jobStoreInstance) {
+    const backend = process.env.JOB_STORE || (process.env.NODE_ENV === "production" ? "r2" : "file");
+    assertSharedStore(backend);
+
+    if (backend === "r2") {
+      jobStoreInstance = new R2JobStore();
+    } else if (backend === "memory") {
+      jobStoreInstance = new MemoryJobStore();
+    } else if (backend === "file") {
+      jobStoreInstance = new FileJobStore(
+        process.env.JOB_STORE_DIR || join(tmpdir(), "jackgivemejob", "jobs")
+      );
+    } else {
+      throw new Error(`Unknown job store backend: ${backend}`);
+    }
+  }
+
+  return jobStoreInstance;
+}
+
+export function setJobStore(store: JobStore | null): void {
+  jobStoreInstance = store;
+}
@@ -0,0 +1,20 @@
+// Index entries stored next to the job records. IPs and idempotency keys come
+// from request headers, so each one becomes a single base64url key segment.
+
+function toKeySegment(value: string): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+// One entry per queued or running job, so counting an IP's jobs never lists anyone else's
+export function getActiveJobPrefix(ip: string): string {
+  return `ip/${toKeySegment(ip)}/active/`;
+}
+
+export function getActiveJobKey(ip: string, jobId: string): string {
+  return `${getActiveJobPrefix(ip)}${jobId}`;
+}
+
+// Claimed by the first request that carries the key, before its job is created
+export function getIdempotencyClaimKey(ip: string, idempotencyKey: string): string {
+  return `idem/${toKeySegment(ip)}/${toKeySegment(idempotencyKey)}`;
+}
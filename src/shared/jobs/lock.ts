@@ -0,0 +1,21 @@
+/**
+ * Serialises async work per key within one process, so an instance's own
+ * updates to a job queue up instead of racing each other's writes.
+ */
+export class KeyedLock {
+  private pending = new Map<string, Promise<unknown>>();
+
+  async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.pending.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    this.pending.set(key, next);
+
+    try {
+      return await next;
+    } finally {
+      if (this.pending.get(key) === next) {
+        this.pending.delete(key);
+      }
+    }
+  }
+}
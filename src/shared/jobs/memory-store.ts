@@ -0,0 +1,43 @@
+import { randomUUID } from "crypto";
+
+import { RecordJobStore } from "./record-store";
+import { StoredObject } from "./store";
+
+/**
+ * Process-local job store for tests and one-off scripts; nothing survives a
+ * restart. Stores built on the same map act like instances sharing a backend.
+ */
+export class MemoryJobStore extends RecordJobStore {
+  private objects: Map<string, StoredObject<unknown>>;
+
+  constructor(objects: Map<string, StoredObject<unknown>> = new Map()) {
+    super();
+    this.objects = objects;
+  }
+
+  protected async readObject<T>(key: string): Promise<StoredObject<T> | null> {
+    const stored = this.objects.get(key);
+    return stored ? (structuredClone(stored) as StoredObject<T>) : null;
+  }
+
+  protected async writeObject(key: string, value: unknown, version: string | null): Promise<boolean> {
+    if ((this.objects.get(key)?.version ?? null) !== version) return false;
+
+    this.objects.set(key, { value: structuredClone(value), version: randomUUID() });
+    return true;
+  }
+
+  protected async listKeys(prefix: string): Promise<string[]> {
+    return Array.from(this.objects.keys()).filter(
+      (key) => key.startsWith(prefix) && !key.slice(prefix.length).includes("/")
+    );
+  }
+
+  protected async removeObject(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  clear(): void {
+    this.objects.clear();
+  }
+}
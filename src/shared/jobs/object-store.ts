@@ -0,0 +1,48 @@
+/* eslint-disable no-unused-vars */
+import { KeyedLock } from "./lock";
+import { JobWriteConflictError, StoredObject } from "./store";
+
+const MAX_WRITE_ATTEMPTS = 8;
+const WRITE_RETRY_DELAY_MS = 25;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * The four versioned storage primitives each backend implements, and the
+ * compare-and-set loop built on them: every write names the version it read,
+ * so app instances and workers sharing a backend never overwrite each other.
+ */
+export abstract class VersionedObjectStore {
+  protected abstract readObject<T>(key: string): Promise<StoredObject<T> | null>;
+  // A null version only creates the object; resolves false when the stored version differs
+  protected abstract writeObject(key: string, value: unknown, version: string | null): Promise<boolean>;
+  // Keys directly under a prefix that ends in "/", or the top-level keys for ""
+  protected abstract listKeys(prefix: string): Promise<string[]>;
+  protected abstract removeObject(key: string): Promise<void>;
+
+  private locks = new KeyedLock();
+
+  /**
+   * Write what `modify` makes of the stored value (null when there is none),
+   * or keep it when `modify` returns undefined. When another writer changed
+   * the value in between, read it again and start over instead of overwriting.
+   */
+  protected async modifyObject<T>(
+    key: string,
+    modify: (current: T | null) => T | undefined | Promise<T | undefined>
+  ): Promise<T | null> {
+    return this.locks.run(key, async () => {
+      for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+        const stored = await this.readObject<T>(key);
+        const updated = await modify(stored?.value ?? null);
+
+        if (updated === undefined) return stored?.value ?? null;
+        if (await this.writeObject(key, updated, stored?.version ?? null)) return updated;
+        await delay(Math.random() * WRITE_RETRY_DELAY_MS * attempt);
+      }
+      throw new JobWriteConflictError(key);
+    });
+  }
+}
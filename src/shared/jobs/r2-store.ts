@@ -0,0 +1,68 @@
+import { getR2Storage, R2Storage } from "../storage";
+
+import { RecordJobStore } from "./record-store";
+import { isValidStoreKey, StoredObject } from "./store";
+
+// The part of R2Storage the store uses
+export type JobObjectStorage = Pick<
+  R2Storage,
+  "getVersionedJsonFromR2" | "putJsonToR2" | "listKeysInR2" | "deleteFromR2"
+>;
+
+/**
+ * Persists one JSON object per key in the R2 bucket the app and the workflow
+ * worker already share, so every serverless instance sees the same jobs.
+ * Writes carry the ETag that was read (If-Match), or If-None-Match: * when
+ * creating, so R2 rejects any write that would overwrite another instance's.
+ */
+export class R2JobStore extends RecordJobStore {
+  private readonly prefix: string;
+  private readonly storage?: JobObjectStorage;
+
+  // Without a storage the store uses the app's bucket, resolved on first use
+  constructor(prefix: string = "jobs/", storage?: JobObjectStorage) {
+    super();
+    this.prefix = prefix;
+    this.storage = storage;
+  }
+
+  protected async readObject<T>(key: string): Promise<StoredObject<T> | null> {
+    if (!isValidStoreKey(key)) return null;
+
+    const stored = await this.getStorage().getVersionedJsonFromR2<T>(this.objectKey(key));
+    return stored && { value: stored.value, version: stored.etag };
+  }
+
+  protected async writeObject(key: string, value: unknown, version: string | null): Promise<boolean> {
+    if (!isValidStoreKey(key)) {
+      throw new Error(`Invalid store key: ${key}`);
+    }
+
+    const condition = version === null ? { ifNoneMatch: "*" as const } : { ifMatch: version };
+    return this.getStorage().putJsonToR2(this.objectKey(key), value, condition);
+  }
+
+  protected async listKeys(prefix: string): Promise<string[]> {
+    const listed = `${this.prefix}${prefix}`;
+    const keys = await this.getStorage().listKeysInR2(listed);
+
+    return keys
+      .filter((key) => key.endsWith(".json"))
+      .map((key) => key.slice(listed.length, -".json".length))
+      .filter((name) => !name.includes("/"))
+      .map((name) => `${prefix}${name}`);
+  }
+
+  protected async removeObject(key: string): Promise<void> {
+    if (!isValidStoreKey(key)) return;
+    await this.getStorage().deleteFromR2(this.objectKey(key));
+  }
+
+  private getStorage(): JobObjectStorage {
+    return this.storage ?? getR2Storage();
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}${key}.json`;
+  }
+}
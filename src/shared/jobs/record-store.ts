@@ -0,0 +1,197 @@
+/* eslint-disable no-unused-vars */
+import { getActiveJobKey, getActiveJobPrefix, getIdempotencyClaimKey } from "./keys";
+import { VersionedObjectStore } from "./object-store";
+import {
+  ACTIVE_JOB_STATUSES,
+  assertTransition,
+  JobStatus,
+  TERMINAL_JOB_STATUSES,
+} from "./state";
+import {
+  JOB_ID_PATTERN,
+  JobNotFoundError,
+  JobStore,
+  matchesJobFilter,
+} from "./store";
+import {
+  IdempotencyClaim,
+  JobEvent,
+  JobFilter,
+  JobPatch,
+  JobRecord,
+  JobUpdater,
+  NewJob,
+  NewJobEvent,
+} from "./types";
+
+// A claim whose job was never created (the request died first) passes on after this
+const ABANDONED_CLAIM_MS = 5 * 60 * 1000;
+
+/**
+ * Shared job bookkeeping on top of the versioned storage primitives, so every
+ * backend applies patches, numbers events, indexes and filters jobs the same way.
+ */
+export abstract class RecordJobStore extends VersionedObjectStore implements JobStore {
+  async createJob(job: NewJob): Promise<JobRecord> {
+    const now = new Date().toISOString();
+    const record: JobRecord = {
+      ...job,
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+      events: [],
+    };
+
+    if (!JOB_ID_PATTERN.test(record.id)) {
+      throw new Error(`Invalid job id: ${record.id}`);
+    }
+    if (!(await this.writeObject(record.id, record, null))) {
+      throw new Error(`Job already exists: ${record.id}`);
+    }
+    await this.indexActiveJob(record);
+    return record;
+  }
+
+  async getJob(jobId: string): Promise<JobRecord | null> {
+    if (!JOB_ID_PATTERN.test(jobId)) return null;
+    return (await this.readObject<JobRecord>(jobId))?.value ?? null;
+  }
+
+  async updateJob(jobId: string, patch: JobPatch | JobUpdater): Promise<JobRecord> {
+    let previousStatus: JobStatus | undefined;
+    const updated = await this.modifyRecord(jobId, (record) => {
+      previousStatus = record.status;
+      const changes = typeof patch === "function" ? patch(record) : patch;
+      if (changes.status) {
+        assertTransition(record.status, changes.status);
+      }
+
+      return {
+        ...record,
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      };
+    });
+
+    if (updated.status !== previousStatus) {
+      await this.indexActiveJob(updated);
+    }
+    return updated;
+  }
+
+  async appendEvent(jobId: string, event: NewJobEvent): Promise<JobEvent> {
+    const updated = await this.modifyRecord(jobId, (record) => {
+      const seq = record.events.length + 1;
+      const jobEvent: JobEvent = {
+        id: String(seq),
+        seq,
+        type: event.type,
+        timestamp: new Date().toISOString(),
+        data: event.data,
+      };
+
+      return {
+        ...record,
+        events: [...record.events, jobEvent],
+        updatedAt: jobEvent.timestamp,
+      };
+    });
+    return updated.events[updated.events.length - 1];
+  }
+
+  async listEvents(jobId: string, afterSeq: number = 0): Promise<JobEvent[]> {
+    const record = await this.getJob(jobId);
+    if (!record) {
+      throw new JobNotFoundError(jobId);
+    }
+    return record.events.filter((event) => event.seq > afterSeq);
+  }
+
+  async listJobs(filter: JobFilter = {}): Promise<JobRecord[]> {
+    const jobIds = await this.listKeys("");
+    const records = await Promise.all(jobIds.map((jobId) => this.getJob(jobId)));
+
+    return records.filter((job): job is JobRecord => job !== null && matchesJobFilter(job, filter));
+  }
+
+  async listActiveJobs(ip: string): Promise<JobRecord[]> {
+    const prefix = getActiveJobPrefix(ip);
+    const keys = await this.listKeys(prefix);
+    const jobs = await Promise.all(keys.map(async (key) => {
+      const job = await this.getJob(key.slice(prefix.length));
+      if (job?.ip === ip && ACTIVE_JOB_STATUSES.includes(job.status)) return job;
+
+      // Left behind by a crash between writes or an out-of-order index update
+      await this.removeObject(key);
+      return null;
+    }));
+
+    return jobs.filter((job): job is JobRecord => job !== null);
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (!job) return;
+
+    await this.removeObject(getActiveJobKey(job.ip, jobId));
+    if (job.idempotencyKey) {
+      await this.releaseIdempotencyKey(job.ip, job.idempotencyKey, jobId);
+    }
+    await this.removeObject(jobId);
+  }
+
+  async deleteFinishedJobs(finishedBefore: Date): Promise<number> {
+    const finished = await this.listJobs({ statuses: TERMINAL_JOB_STATUSES });
+    const expired = finished.filter((job) => Date.parse(job.updatedAt) < finishedBefore.getTime());
+
+    await Promise.all(expired.map((job) => this.deleteJob(job.id)));
+    return expired.length;
+  }
+
+  async claimIdempotencyKey(ip: string, key: string, jobId: string): Promise<IdempotencyClaim> {
+    const claim = await this.modifyObject<IdempotencyClaim>(getIdempotencyClaimKey(ip, key), async (current) => {
+      if (current && !(await this.isClaimReleased(current))) return undefined;
+      return { jobId, attempt: (current?.attempt ?? 0) + 1, claimedAt: new Date().toISOString() };
+    });
+    return claim as IdempotencyClaim;
+  }
+
+  async releaseIdempotencyKey(ip: string, key: string, jobId: string): Promise<void> {
+    const claimKey = getIdempotencyClaimKey(ip, key);
+    const claim = await this.readObject<IdempotencyClaim>(claimKey);
+    if (claim?.value.jobId === jobId) {
+      await this.removeObject(claimKey);
+    }
+  }
+
+  // A failed job's key may be claimed again, so the client can retry the request
+  private async isClaimReleased(claim: IdempotencyClaim): Promise<boolean> {
+    const job = await this.getJob(claim.jobId);
+    if (job) return job.status === "failed";
+    return Date.now() - Date.parse(claim.claimedAt) > ABANDONED_CLAIM_MS;
+  }
+
+  // The index only narrows the search; listActiveJobs still checks each job's status
+  private async indexActiveJob(job: JobRecord): Promise<void> {
+    const key = getActiveJobKey(job.ip, job.id);
+    if (ACTIVE_JOB_STATUSES.includes(job.status)) {
+      await this.writeObject(key, { jobId: job.id }, null);
+    } else {
+      await this.removeObject(key);
+    }
+  }
+
+  private async modifyRecord(jobId: string, modify: (record: JobRecord) => JobRecord): Promise<JobRecord> {
+    if (!JOB_ID_PATTERN.test(jobId)) {
+      throw new JobNotFoundError(jobId);
+    }
+
+    const updated = await this.modifyObject<JobRecord>(jobId, (record) => {
+      if (!record) {
+        throw new JobNotFoundError(jobId);
+      }
+      return modify(record);
+    });
+    return updated as JobRecord;
+  }
+}
@@ -0,0 +1,31 @@
+import { JobStage, JobStatus } from "./state";
+import { JobOutput, JobRecord } from "./types";
+
+// Public view of a job, shared by the status endpoint and the SSE stream
+export interface JobStatusResponse {
+  id: string;
+  status: JobStatus;
+  runId?: string;
+  stage?: JobStage;
+  progress?: number;
+  outputUrl?: string;
+  outputs?: JobOutput[];
+  reason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function toJobStatusResponse(job: JobRecord): JobStatusResponse {
+  return {
+    id: job.id,
+    status: job.status,
+    runId: job.triggerRunId,
+    stage: job.stage,
+    progress: job.progress,
+    outputUrl: job.outputUrl,
+    outputs: job.outputs,
+    reason: job.reason,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
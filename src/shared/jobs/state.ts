@@ -0,0 +1,70 @@
+// Job lifecycle shared by the API routes, the workflow and the React hooks.
+// Keep this module free of server-only imports so client code can use it.
+
+export const JOB_STATUSES = ["queued", "running", "done", "failed", "cancelled"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// Substates of a running job, one per workflow step that does user-visible work
+export const JOB_STAGES = [
+  "downloading",
+  "validating",
+  "transcribing",
+  "translating",
+  "rendering",
+  "uploading",
+] as const;
+
+export type JobStage = (typeof JOB_STAGES)[number];
+
+export const ACTIVE_JOB_STATUSES: readonly JobStatus[] = ["queued", "running"];
+
+export const TERMINAL_JOB_STATUSES: readonly JobStatus[] = ["done", "failed", "cancelled"];
+
+// A failed job can be queued again to resume from its checkpoints
+const JOB_TRANSITIONS: Record<JobStatus, readonly JobStatus[]> = {
+  queued: ["running", "failed", "cancelled"],
+  running: ["done", "failed", "cancelled"],
+  done: [],
+  failed: ["queued"],
+  cancelled: [],
+};
+
+export class InvalidJobTransitionError extends Error {
+  constructor(
+    public readonly from: JobStatus,
+    public readonly to: JobStatus
+  ) {
+    super(`Invalid job transition: ${from} -> ${to}`);
+    this.name = "InvalidJobTransitionError";
+  }
+}
+
+export function isJobStatus(value: unknown): value is JobStatus {
+  return JOB_STATUSES.includes(value as JobStatus);
+}
+
+export function isJobStage(value: unknown): value is JobStage {
+  return JOB_STAGES.includes(value as JobStage);
+}
+
+export function isTerminalJobStatus(status: JobStatus): boolean {
+  return TERMINAL_JOB_STATUSES.includes(status);
+}
+
+/**
+ * Staying in an active status is always allowed (a running job moves between
+ * stages); terminal statuses only allow the moves listed in JOB_TRANSITIONS.
+ */
+export function canTransition(from: JobStatus, to: JobStatus): boolean {
+  if (from === to) {
+    return !isTerminalJobStatus(from);
+  }
+  return JOB_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: JobStatus, to: JobStatus): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidJobTransitionError(from, to);
+  }
+}
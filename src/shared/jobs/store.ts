@@ -0,0 +1,82 @@
+/* eslint-disable no-unused-vars */
+import {
+  IdempotencyClaim,
+  JobEvent,
+  JobFilter,
+  JobPatch,
+  JobRecord,
+  JobUpdater,
+  NewJob,
+  NewJobEvent,
+} from "./types";
+
+export interface JobStore {
+  createJob(job: NewJob): Promise<JobRecord>;
+  getJob(jobId: string): Promise<JobRecord | null>;
+  updateJob(jobId: string, patch: JobPatch | JobUpdater): Promise<JobRecord>;
+  appendEvent(jobId: string, event: NewJobEvent): Promise<JobEvent>;
+  listEvents(jobId: string, afterSeq?: number): Promise<JobEvent[]>;
+  listJobs(filter?: JobFilter): Promise<JobRecord[]>;
+  // Reads only the IP's own active-job index instead of every job
+  listActiveJobs(ip: string): Promise<JobRecord[]>;
+  deleteJob(jobId: string): Promise<void>;
+  // Resolves the number of finished jobs last updated before the cutoff that were deleted
+  deleteFinishedJobs(finishedBefore: Date): Promise<number>;
+  // Resolves the claim that owns the key: this job's own, or an earlier request's
+  claimIdempotencyKey(ip: string, key: string, jobId: string): Promise<IdempotencyClaim>;
+  releaseIdempotencyKey(ip: string, key: string, jobId: string): Promise<void>;
+}
+
+// A stored value and the version a conditional write must name to replace it
+export interface StoredObject<T> {
+  value: T;
+  version: string;
+}
+
+// Job ids come straight from request URLs; never let them address other objects
+export const JOB_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+// Slash-separated segments; backends map them to object keys or file paths
+const STORE_KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/;
+
+export function isValidStoreKey(key: string): boolean {
+  return STORE_KEY_PATTERN.test(key);
+}
+
+export class JobNotFoundError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Job not found: ${jobId}`);
+    this.name = "JobNotFoundError";
+  }
+}
+
+// Raised when a client acts on a job that was created from another IP
+export class JobAccessDeniedError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Job belongs to another client: ${jobId}`);
+    this.name = "JobAccessDeniedError";
+  }
+}
+
+// Raised when a client already runs as many jobs as it may at once
+export class JobLimitExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobLimitExceededError";
+  }
+}
+
+// Raised when other writers kept changing a job or index entry through every retry
+export class JobWriteConflictError extends Error {
+  constructor(public readonly key: string) {
+    super(`Job store key kept changing while being updated: ${key}`);
+    this.name = "JobWriteConflictError";
+  }
+}
+
+export function matchesJobFilter(job: JobRecord, filter: JobFilter): boolean {
+  if (filter.ip && job.ip !== filter.ip) return false;
+  if (filter.idempotencyKey && job.idempotencyKey !== filter.idempotencyKey) return false;
+  if (filter.triggerRunId && job.triggerRunId !== filter.triggerRunId) return false;
+  if (filter.statuses && !filter.statuses.includes(job.status)) return false;
+  return true;
+}
@@ -0,0 +1,88 @@
+/* eslint-disable no-unused-vars */
+import type { CaptionStyle } from "@/shared/subtitles/styles";
+
+import { JobStage, JobStatus } from "./state";
+
+// Speech-to-text providers a job may request instead of the worker's STT_PROVIDER
+export const STT_PROVIDERS = ["openai", "local-whisper", "fake"] as const;
+
+export type SttProviderName = (typeof STT_PROVIDERS)[number];
+
+// "burn" draws captions into the picture, "soft" muxes a subtitle track per
+// language into the original video, "both" produces both kinds of output
+export const RENDER_MODES = ["burn", "soft", "both"] as const;
+
+export type RenderMode = (typeof RENDER_MODES)[number];
+
+export interface JobEvent {
+  id: string;
+  seq: number;
+  type: string;
+  timestamp: string;
+  data?: Record<string, unknown>;
+}
+
+export interface JobOutput {
+  targetLang: string;
+  url: string;
+  // Soft outputs share one video that carries every language as a track
+  mode?: Exclude<RenderMode, "both">;
+}
+
+export interface JobRecord {
+  id: string;
+  ip: string;
+  status: JobStatus;
+  r2Key: string;
+  targetLangs: string[];
+  sourceLang?: string;
+  sttProvider?: SttProviderName;
+  renderMode?: RenderMode;
+  captionStyle?: CaptionStyle;
+  // Client-supplied key that retries of the same render request share
+  idempotencyKey?: string;
+  triggerRunId?: string;
+  stage?: JobStage;
+  progress?: number;
+  // First language's video; `outputs` has one per target language
+  outputUrl?: string;
+  outputs?: JobOutput[];
+  reason?: string;
+  // How many times the job has been queued again after failing
+  resumeCount?: number;
+  createdAt: string;
+  updatedAt: string;
+  events: JobEvent[];
+}
+
+export type NewJob = Pick<JobRecord, "id" | "ip" | "r2Key" | "targetLangs" | "sourceLang" | "sttProvider" | "renderMode" | "captionStyle" | "idempotencyKey">;
+
+export type JobPatch = Partial<
+  Pick<
+    JobRecord,
+    "status" | "triggerRunId" | "stage" | "progress" | "outputUrl" | "outputs" | "reason" | "resumeCount"
+  >
+>;
+
+// Computes a patch from the job as stored; it runs again if the write has to be retried
+export type JobUpdater = (job: JobRecord) => JobPatch;
+
+export interface NewJobEvent {
+  type: string;
+  data?: Record<string, unknown>;
+}
+
+// The job a client idempotency key belongs to. A key whose job failed can be
+// claimed again, and attempt counts how many jobs it has been claimed for.
+export interface IdempotencyClaim {
+  jobId: string;
+  attempt: number;
+  claimedAt: string;
+}
+
+export interface JobFilter {
+  ip?: string;
+  idempotencyKey?: string;
+  triggerRunId?: string;
+  statuses?: readonly JobStatus[];
+}
@@ -0,0 +1,3 @@
+export * from "./registry";
+export * from "./source";
+export * from "./iso639";
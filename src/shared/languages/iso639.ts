@@ -0,0 +1,43 @@
+// English names of ISO 639-1 languages, as speech-to-text APIs report them.
+// Independent of the target registry, so any code
+// NEXT_PUBLIC_SUPPORTED_SOURCE_LANGUAGES allows can be recognised by name.
+
+export const ISO_639_1_NAMES: Record<string, string> = {
+  af: "afrikaans", am: "amharic", ar: "arabic", as: "assamese", az: "azerbaijani",
+  ba: "bashkir", be: "belarusian", bg: "bulgarian", bn: "bengali", bo: "tibetan",
+  br: "breton", bs: "bosnian", ca: "catalan", cs: "czech", cy: "welsh",
+  da: "danish", de: "german", el: "greek", en: "english", es: "spanish",
+  et: "estonian", eu: "basque", fa: "persian", fi: "finnish", fo: "faroese",
+  fr: "french", gl: "galician", gu: "gujarati", ha: "hausa", he: "hebrew",
+  hi: "hindi", hr: "croatian", ht: "haitian creole", hu: "hungarian", hy: "armenian",
+  id: "indonesian", is: "icelandic", it: "italian", ja: "japanese", jv: "javanese",
+  ka: "georgian", kk: "kazakh", km: "khmer", kn: "kannada", ko: "korean",
+  la: "latin", lb: "luxembourgish", ln: "lingala", lo: "lao", lt: "lithuanian",
+  lv: "latvian", mg: "malagasy", mi: "maori", mk: "macedonian", ml: "malayalam",
+  mn: "mongolian", mr: "marathi", ms: "malay", mt: "maltese", my: "burmese",
+  ne: "nepali", nl: "dutch", nn: "nynorsk", no: "norwegian", oc: "occitan",
+  pa: "punjabi", pl: "polish", ps: "pashto", pt: "portuguese", ro: "romanian",
+  ru: "russian", sa: "sanskrit", sd: "sindhi", si: "sinhala", sk: "slovak",
+  sl: "slovenian", sn: "shona", so: "somali", sq: "albanian", sr: "serbian",
+  su: "sundanese", sv: "swedish", sw: "swahili", ta: "tamil", te: "telugu",
+  tg: "tajik", th: "thai", tk: "turkmen", tl: "tagalog", tr: "turkish",
+  tt: "tatar", uk: "ukrainian", ur: "urdu", uz: "uzbek", vi: "vietnamese",
+  yi: "yiddish", yo: "yoruba", zh: "chinese",
+};
+
+// Other names Whisper uses for the same languages
+const NAME_ALIASES: Record<string, string> = {
+  castilian: "es", flemish: "nl", haitian: "ht", letzeburgesch: "lb",
+  mandarin: "zh", moldavian: "ro", moldovan: "ro", myanmar: "my", panjabi: "pa",
+  pushto: "ps", sinhalese: "si", valencian: "ca",
+};
+
+const CODES_BY_NAME: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(ISO_639_1_NAMES).map(([code, name]) => [name, code])),
+  ...NAME_ALIASES,
+};
+
+// Undefined for names that aren't an ISO 639-1 language
+export function getLanguageCodeByName(name: string): string | undefined {
+  return CODES_BY_NAME[name.trim().toLowerCase()];
+}
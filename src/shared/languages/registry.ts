@@ -0,0 +1,61 @@
+// The languages the product knows about. Server-authoritative: the render
+// route validates against it and GET /api/languages serves the enabled ones
+// to the UI. Client-safe, so components can fall back to it while loading.
+
+export type TextDirection = "ltr" | "rtl";
+
+export interface LanguageDefinition {
+  // ISO 639-1
+  code: string;
+  // ISO 639-2, used to tag subtitle tracks
+  iso6392: string;
+  name: string;
+  nativeName: string;
+  flag: string;
+  // ISO 15924 script the captions are written in
+  script: string;
+  direction: TextDirection;
+  // Font family libass uses when burning in captions
+  font: string;
+  // Offered as a caption target
+  enabled: boolean;
+}
+
+export const LANGUAGES: LanguageDefinition[] = [
+  { code: "vi", iso6392: "vie", name: "Vietnamese", nativeName: "Tiếng Việt", flag: "🇻🇳", script: "Latn", direction: "ltr", font: "Noto Sans", enabled: true },
+  { code: "hi", iso6392: "hin", name: "Hindi", nativeName: "हिन्दी", flag: "🇮🇳", script: "Deva", direction: "ltr", font: "Noto Sans Devanagari", enabled: true },
+  { code: "fr", iso6392: "fra", name: "French", nativeName: "Français", flag: "🇫🇷", script: "Latn", direction: "ltr", font: "Noto Sans", enabled: true },
+  { code: "es", iso6392: "spa", name: "Spanish", nativeName: "Español", flag: "🇪🇸", script: "Latn", direction: "ltr", font: "Noto Sans", enabled: true },
+  { code: "en", iso6392: "eng", name: "English", nativeName: "English", flag: "🇬🇧", script: "Latn", direction: "ltr", font: "Noto Sans", enabled: false },
+  { code: "ar", iso6392: "ara", name: "Arabic", nativeName: "العربية", flag: "🇸🇦", script: "Arab", direction: "rtl", font: "Noto Sans Arabic", enabled: false },
+  { code: "ja", iso6392: "jpn", name: "Japanese", nativeName: "日本語", flag: "🇯🇵", script: "Jpan", direction: "ltr", font: "Noto Sans JP", enabled: false },
+];
+
+// Body of GET /api/languages
+export interface LanguagesResponse {
+  languages: LanguageDefinition[];
+  defaultLanguage: string;
+  sourceLanguages: string[];
+  maxTargetLanguages: number;
+}
+
+export const DEFAULT_TARGET_LANGUAGE = "vi";
+
+// One subtask per language, so cap how many a single job can fan out to
+export const MAX_TARGET_LANGUAGES = 4;
+
+export function getLanguage(code: string): LanguageDefinition | undefined {
+  return LANGUAGES.find((language) => language.code === code);
+}
+
+export function getEnabledLanguages(): LanguageDefinition[] {
+  return LANGUAGES.filter((language) => language.enabled);
+}
+
+export function isEnabledLanguage(code: string): boolean {
+  return getLanguage(code)?.enabled ?? false;
+}
+
+export function getLanguageName(code: string): string {
+  return getLanguage(code)?.name ?? code;
+}
@@ -0,0 +1,29 @@
+// Spoken languages the workflow can transcribe. The upload constraints banner
+// lists them too, so the override is a NEXT_PUBLIC_ variable that Next.js
+// inlines into the client bundle at build time.
+
+import { getLanguageCodeByName } from "./iso639";
+
+export const DEFAULT_SOURCE_LANGUAGES = ["en", "es", "hi", "fr", "vi"];
+
+/**
+ * NEXT_PUBLIC_SUPPORTED_SOURCE_LANGUAGES narrows or extends the defaults with a
+ * comma-separated list of ISO 639-1 codes, e.g. "en,es".
+ */
+export function getSupportedSourceLanguages(): string[] {
+  const configured = (process.env.NEXT_PUBLIC_SUPPORTED_SOURCE_LANGUAGES || "")
+    .split(",")
+    .map((code) => code.trim().toLowerCase())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_SOURCE_LANGUAGES;
+}
+
+export function isSupportedSourceLanguage(code: string): boolean {
+  return getSupportedSourceLanguages().includes(code);
+}
+
+// Accept either a code ("es") or the English name Whisper reports ("spanish")
+export function normalizeLanguageCode(language: string): string {
+  const value = language.trim().toLowerCase();
+  return getLanguageCodeByName(value) ?? value;
+}
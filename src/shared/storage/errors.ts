@@ -0,0 +1,25 @@
+/* eslint-disable no-unused-vars */
+export class R2Error extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "R2Error";
+
+    // Maintain proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, R2Error);
+    }
+  }
+
+  get fullMessage(): string {
+    if (this.cause && this.cause instanceof Error) {
+      return `${this.message} (caused by: ${this.cause.message})`;
+    }
+    return this.message;
+  }
+}
+
+// 412: the write's condition failed; 409: a concurrent conditional write to the same key won
+export function isConditionFailure(error: unknown): boolean {
+  const status = (error as { $metadata?: { httpStatusCode?: number } })?.$metadata?.httpStatusCode;
+  return status === 412 || status === 409;
+}
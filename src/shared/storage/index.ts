@@ -1 +1,28 @@
-export * from "./r2";
\ No newline at end of file
+import { R2Error } from "./errors";
+import { R2Storage } from "./r2";
+import { R2Config } from "./types";
+
+export * from "./types";
+export * from "./r2";
+
+let r2Instance: R2Storage | null = null;
+
+export function getR2Storage(): R2Storage {
+  if (!r2Instance) {
+    const config: R2Config = {
+      accountId: process.env.CLOUDFLARE_ACCOUNT_ID!,
+      accessKeyId: process.env.CLOUDFLARE_ACCESS_KEY_ID!,
+      secretAccessKey: process.env.CLOUDFLARE_SECRET_ACCESS_KEY!,
+      bucketName: process.env.CLOUDFLARE_R2_BUCKET_NAME!,
+      publicUrl: process.env.CLOUDFLARE_R2_PUBLIC_URL,
+    };
+
+    if (!config.accountId || !config.accessKeyId || !config.secretAccessKey || !config.bucketName) {
+      throw new R2Error("Missing required R2 configuration in environment variables");
+    }
+
+    r2Instance = new R2Storage(config);
+  }
+
+  return r2Instance;
+}
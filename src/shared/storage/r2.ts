@@ -1,32 +1,29 @@
-/* eslint-disable no-unused-vars */
+import { createReadStream } from "fs";
+
 import {
   S3Client,
-  PutObjectCommand,
   GetObjectCommand,
+  PutObjectCommand,
   HeadObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
 } from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { v4 as uuidv4 } from "uuid";
 
-export interface R2FileMetadata {
-  size: number;
-  contentType: string;
-  lastModified: Date;
-  etag: string;
-}
+import { isConditionFailure, R2Error } from "./errors";
+import { R2Config, R2FileMetadata, R2VersionedJson, R2WriteCondition } from "./types";
 
-export interface R2Config {
-  accountId: string;
-  accessKeyId: string;
-  secretAccessKey: string;
-  bucketName: string;
-  publicUrl?: string;
-}
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+const MULTIPART_QUEUE_SIZE = 2;
 
 class R2Storage {
   private client: S3Client;
   private bucketName: string;
   private publicUrl: string;
+  readonly hasPublicUrl: boolean;
 
   constructor(config: R2Config) {
     this.client = new S3Client({
@@ -38,6 +35,7 @@ class R2Storage {
       },
     });
     this.bucketName = config.bucketName;
+    this.hasPublicUrl = !!config.publicUrl;
     this.publicUrl =
       config.publicUrl ||
       `https://${config.bucketName}.${config.accountId}.r2.cloudflarestorage.com`;
@@ -45,32 +43,29 @@ class R2Storage {
 
   async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
     try {
-      const command = new GetObjectCommand({
-        Bucket: this.bucketName,
-        Key: key,
-      });
-
-      const signedUrl = await getSignedUrl(this.client, command, { expiresIn });
-      return signedUrl;
+      const command = new GetObjectCommand({ Bucket: this.bucketName, Key: key });
+      return await getSignedUrl(this.client, command, { expiresIn });
     } catch (error) {
       throw new R2Error("Failed to generate signed URL", error);
     }
   }
 
-  async uploadToR2(
-    key: string,
-    file: Buffer,
-    contentType: string
-  ): Promise<void> {
+  async uploadFileToR2(key: string, filePath: string, contentType: string): Promise<void> {
     try {
-      const command = new PutObjectCommand({
-        Bucket: this.bucketName,
-        Key: key,
-        Body: file,
-        ContentType: contentType,
+      // Multipart upload keeps at most partSize * queueSize bytes in memory
+      const upload = new Upload({
+        client: this.client,
+        params: {
+          Bucket: this.bucketName,
+          Key: key,
+          Body: createReadStream(filePath),
+          ContentType: contentType,
+        },
+        partSize: MULTIPART_PART_SIZE,
+        queueSize: MULTIPART_QUEUE_SIZE,
       });
 
-      await this.client.send(command);
+      await upload.done();
     } catch (error) {
       throw new R2Error("Failed to upload file to R2", error);
     }
@@ -78,12 +73,7 @@ class R2Storage {
 
   async getR2FileMetadata(key: string): Promise<R2FileMetadata> {
     try {
-      const command = new HeadObjectCommand({
-        Bucket: this.bucketName,
-        Key: key,
-      });
-
-      const response = await this.client.send(command);
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucketName, Key: key }));
 
       return {
         size: response.ContentLength || 0,
@@ -96,63 +86,114 @@ class R2Storage {
     }
   }
 
-  getPublicUrl(key: string): string {
-    return `${this.publicUrl}/${key}`;
+  // Resolves false when the write's condition no longer holds
+  async putJsonToR2(key: string, value: unknown, condition?: R2WriteCondition): Promise<boolean> {
+    return this.putObjectToR2(key, JSON.stringify(value), "application/json", condition);
   }
 
-  generateKey(fileName: string, prefix: string = "uploads"): string {
-    const extension = fileName.split(".").pop();
-    const uniqueId = uuidv4();
-    return `${prefix}/${uniqueId}.${extension}`;
+  // Resolves null when the object does not exist
+  async getJsonFromR2<T>(key: string): Promise<T | null> {
+    return (await this.getVersionedJsonFromR2<T>(key))?.value ?? null;
   }
-}
 
-export class R2Error extends Error {
-  constructor(message: string, public readonly cause?: unknown) {
-    super(message);
-    this.name = "R2Error";
+  // Resolves null when the object does not exist; pass the ETag back as ifMatch to update it
+  async getVersionedJsonFromR2<T>(key: string): Promise<R2VersionedJson<T> | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucketName, Key: key }));
+      const body = await response.Body?.transformToString();
+      return body ? { value: JSON.parse(body) as T, etag: response.ETag || "" } : null;
+    } catch (error) {
+      if (error instanceof Error && error.name === "NoSuchKey") return null;
+      throw new R2Error("Failed to read object from R2", error);
+    }
+  }
 
-    // Maintain proper stack trace for where our error was thrown (only available on V8)
-    if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, R2Error);
+  // Resolves false when the write's condition no longer holds
+  async putObjectToR2(
+    key: string,
+    body: string | Uint8Array,
+    contentType: string,
+    condition: R2WriteCondition = {}
+  ): Promise<boolean> {
+    try {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        IfMatch: condition.ifMatch,
+        IfNoneMatch: condition.ifNoneMatch,
+      }));
+      return true;
+    } catch (error) {
+      if (isConditionFailure(error)) return false;
+      throw new R2Error("Failed to write object to R2", error);
+    }
+  }
+
+  // Resolves null when the object does not exist
+  async getObjectFromR2(key: string): Promise<Uint8Array | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return (await response.Body?.transformToByteArray()) ?? null;
+    } catch (error) {
+      if (error instanceof Error && error.name === "NoSuchKey") return null;
+      throw new R2Error("Failed to read object from R2", error);
     }
   }
 
-  get fullMessage(): string {
-    if (this.cause && this.cause instanceof Error) {
-      return `${this.message} (caused by: ${this.cause.message})`;
+  async deleteFromR2(key: string): Promise<void> {
+    try {
+      await this.client.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+    } catch (error) {
+      throw new R2Error("Failed to delete file from R2", error);
+    }
+  }
+
+  async listKeysInR2(prefix: string): Promise<string[]> {
+    try {
+      const keys: string[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const listing = await this.client.send(new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }));
+        keys.push(...(listing.Contents || []).flatMap((object) => (object.Key ? [object.Key] : [])));
+        continuationToken = listing.NextContinuationToken;
+      } while (continuationToken);
+      return keys;
+    } catch (error) {
+      throw new R2Error("Failed to list files in R2", error);
     }
-    return this.message;
   }
-}
 
-let r2Instance: R2Storage | null = null;
-
-export function getR2Storage(): R2Storage {
-  if (!r2Instance) {
-    const config: R2Config = {
-      accountId: process.env.CLOUDFLARE_ACCOUNT_ID!,
-      accessKeyId: process.env.CLOUDFLARE_ACCESS_KEY_ID!,
-      secretAccessKey: process.env.CLOUDFLARE_SECRET_ACCESS_KEY!,
-      bucketName: process.env.CLOUDFLARE_R2_BUCKET_NAME!,
-      publicUrl: process.env.CLOUDFLARE_R2_PUBLIC_URL,
-    };
-
-    if (
-      !config.accountId ||
-      !config.accessKeyId ||
-      !config.secretAccessKey ||
-      !config.bucketName
-    ) {
-      throw new R2Error(
-        "Missing required R2 configuration in environment variables"
-      );
+  async deletePrefixFromR2(prefix: string): Promise<void> {
+    const keys = await this.listKeysInR2(prefix);
+    try {
+      // DeleteObjects accepts at most 1000 keys per request
+      for (let index = 0; index < keys.length; index += 1000) {
+        const objects = keys.slice(index, index + 1000).map((Key) => ({ Key }));
+        await this.client.send(new DeleteObjectsCommand({
+          Bucket: this.bucketName,
+          Delete: { Objects: objects, Quiet: true },
+        }));
+      }
+    } catch (error) {
+      throw new R2Error("Failed to delete files from R2", error);
     }
+  }
 
-    r2Instance = new R2Storage(config);
+  getPublicUrl(key: string): string {
+    return `${this.publicUrl}/${key}`;
   }
 
-  return r2Instance;
+  generateKey(fileName: string, prefix: string = "uploads"): string {
+    const extension = fileName.split(".").pop();
+    const uniqueId = uuidv4();
+    return `${prefix}/${uniqueId}.${extension}`;
+  }
 }
 
-export { R2Storage };
\ No newline at end of file
+export { R2Storage, R2Error };
\ No newline at end of file
@@ -0,0 +1,26 @@
+export interface R2FileMetadata {
+  size: number;
+  contentType: string;
+  lastModified: Date;
+  etag: string;
+}
+
+export interface R2Config {
+  accountId: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucketName: string;
+  publicUrl?: string;
+}
+
+// Preconditions for a write: the ETag the object must still have, or "*" to
+// only create it
+export interface R2WriteCondition {
+  ifMatch?: string;
+  ifNoneMatch?: "*";
+}
+
+export interface R2VersionedJson<T> {
+  value: T;
+  etag: string;
+}
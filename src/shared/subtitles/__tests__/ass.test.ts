@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { buildKaraokeText, escapeAssText, formatAssTime, serializeAss, toAssColor } from "../ass";
+import { CAPTION_STYLE_PRESETS } from "../styles";
+import { SubtitleCue } from "../types";
+
+import { assertCloseTo, FIXTURE_CUES } from "./fixtures";
+
+const OPTIONS = { width: 1920, height: 1080 };
+const KARAOKE_STYLE = { ...CAPTION_STYLE_PRESETS.clean.style, karaoke: true };
+const KARAOKE_CUE: SubtitleCue = {
+  start: 1,
+  end: 3,
+  text: "Hello big\nworld",
+  words: [
+    { word: "Hello", start: 1.2, end: 1.6 },
+    { word: "big", start: 1.6, end: 2 },
+    { word: "world", start: 2.1, end: 2.8 },
+  ],
+};
+
+interface AssEvent extends SubtitleCue {
+  style: string;
+}
+
+function parseAssTime(value: string): number {
+  const [hours, minutes, seconds] = value.split(":").map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+function parseAssEvents(content: string): AssEvent[] {
+  return content
+    .split("\n")
+    .filter((line) => line.startsWith("Dialogue: "))
+    .map((line) => {
+      const fields = line.slice("Dialogue: ".length).split(",");
+      const text = fields.slice(9).join(",").replace(/\{[^}]*\}/g, "").replace(/\\N/g, "\n").replace(/\\\\/g, "\\");
+      return { start: parseAssTime(fields[1]), end: parseAssTime(fields[2]), style: fields[3], text };
+    });
+}
+
+describe("serializeAss", () => {
+  it("writes centisecond times and ASS colors", () => {
+    assert.equal(formatAssTime(3725.004), "1:02:05.00");
+    assert.equal(formatAssTime(1.505), "0:00:01.51");
+    assert.equal(toAssColor("#FF8000"), "&H000080FF");
+    assert.equal(toAssColor("#000000", 0.5), "&H80000000");
+  });
+
+  it("escapes backslashes and drops override braces", () => {
+    assert.equal(escapeAssText("a\\b {\\i1}c\nd"), "a\\\\b \\\\i1c\\Nd");
+  });
+
+  it("declares the frame size and a default style", () => {
+    const content = serializeAss(FIXTURE_CUES, OPTIONS);
+
+    assert.match(content, /^\[Script Info\]\nScriptType: v4\.00\+\nPlayResX: 1920\nPlayResY: 1080\n/);
+    assert.match(content, /^Style: Default,Noto Sans,65,/m);
+    assert.doesNotMatch(content, /^Style: Karaoke,/m);
+  });
+
+  it("reads back the same timing and text", () => {
+    const events = parseAssEvents(serializeAss(FIXTURE_CUES, OPTIONS));
+
+    assert.equal(events.length, FIXTURE_CUES.length);
+    events.forEach((event, index) => {
+      assert.equal(event.style, "Default");
+      assertCloseTo(event.start, FIXTURE_CUES[index].start, 0.005, `cue ${index} start`);
+      assertCloseTo(event.end, FIXTURE_CUES[index].end, 0.005, `cue ${index} end`);
+      assert.equal(event.text, FIXTURE_CUES[index].text);
+    });
+  });
+});
+
+describe("buildKaraokeText", () => {
+  it("times each word from its start and leads with the silence before the first", () => {
+    assert.equal(buildKaraokeText(KARAOKE_CUE, KARAOKE_CUE.text), "{\\k20}{\\k40}Hello {\\k50}big\\N{\\k70}world");
+  });
+
+  it("clamps word timings to the cue", () => {
+    const cue = { ...KARAOKE_CUE, words: [{ word: "Early", start: 0.5, end: 1.5 }, { word: "late", start: 2.5, end: 4 }] };
+
+    assert.equal(buildKaraokeText(cue, "Early late"), "{\\k150}Early {\\k50}late");
+  });
+
+  it("gives up when the words no longer line up with the text", () => {
+    assert.equal(buildKaraokeText(KARAOKE_CUE, "Hello world"), null);
+    assert.equal(buildKaraokeText({ ...KARAOKE_CUE, words: undefined }, KARAOKE_CUE.text), null);
+  });
+
+  it("writes karaoke events in their own style and falls back without word timings", () => {
+    const content = serializeAss([KARAOKE_CUE, FIXTURE_CUES[2]], { ...OPTIONS, style: KARAOKE_STYLE });
+    const [karaoke, plain] = parseAssEvents(content);
+
+    assert.match(content, /^Style: Karaoke,/m);
+    assert.match(content, /,Karaoke,,0,0,0,,\{\\k20\}\{\\k40\}Hello /);
+    assert.deepEqual([karaoke.style, karaoke.text], ["Karaoke", KARAOKE_CUE.text]);
+    assert.deepEqual([plain.style, plain.text], ["Default", "One more"]);
+  });
+});
@@ -0,0 +1,24 @@
+// Cues every serializer test writes out and reads back.
+
+import { SubtitleCue } from "../types";
+
+export const FIXTURE_CUES: SubtitleCue[] = [
+  { start: 1.5, end: 3.25, text: "Hello, world!\nSecond line" },
+  { start: 4, end: 6.2, text: "Café & <tags>" },
+  { start: 62.04, end: 65, text: "One more" },
+];
+
+// Parsed times may be rounded to the format's clock (milliseconds or frames)
+export function assertCloseTo(actual: number, expected: number, tolerance: number, label: string): void {
+  if (Math.abs(actual - expected) > tolerance) {
+    throw new Error(`${label}: expected ${expected} ± ${tolerance}, got ${actual}`);
+  }
+}
+
+// HH:MM:SS.mmm with optionally unpadded hours
+export function parseClockTime(value: string): number {
+  const match = /^(\d+):(\d{2}):(\d{2})\.(\d{3})$/.exec(value);
+  if (!match) throw new Error(`Invalid clock time: ${value}`);
+  const [hours, minutes, seconds, milliseconds] = match.slice(1).map(Number);
+  return hours * 3600 + minutes * 60 + seconds + milliseconds / 1000;
+}
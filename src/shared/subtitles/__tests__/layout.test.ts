@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { fitsLines, paginateLines, rewrapLines, unwrapLines, wrapLines } from "../layout";
+
+const JAPANESE = "今日はとても良い天気ですね。明日も晴れるでしょう。";
+const NO_LINE_START = /^[、。，．・：；？！ー）」』ゃゅょっ]/;
+
+describe("wrapLines", () => {
+  it("keeps text that fits on one line", () => {
+    assert.deepEqual(wrapLines("Hello, world!", 42), ["Hello, world!"]);
+    assert.deepEqual(wrapLines("   ", 42), []);
+  });
+
+  it("splits Latin text into two balanced lines at spaces", () => {
+    assert.deepEqual(wrapLines("The quick brown fox jumps over the lazy dog by the river", 42), [
+      "The quick brown fox jumps",
+      "over the lazy dog by the river",
+    ]);
+  });
+
+  it("breaks Chinese and Japanese between characters without adding spaces", () => {
+    const lines = wrapLines(JAPANESE, 13);
+
+    assert.deepEqual(lines, ["今日はとても良い天気です", "ね。明日も晴れるでしょう。"]);
+    assert.equal(lines.join(""), JAPANESE);
+    assert.deepEqual(wrapLines("我们明天早上八点在公司门口见面，然后一起去机场。", 16), [
+      "我们明天早上八点在公司门",
+      "口见面，然后一起去机场。",
+    ]);
+  });
+
+  it("follows kinsoku and keeps Latin words inside CJK text whole", () => {
+    const lines = wrapLines("新しいiPhoneを買いました。とても嬉しいです。", 13);
+
+    assert.deepEqual(lines, ["新しいiPhoneを買い", "ました。とても嬉しいです。"]);
+    lines.forEach((line) => assert.doesNotMatch(line, NO_LINE_START));
+  });
+
+  it("wraps text too long for maxLines onto extra lines instead of cutting it", () => {
+    const text = "one two three four five six seven eight nine ten";
+    const lines = wrapLines(text, 10, 2);
+
+    assert.ok(lines.length > 2);
+    assert.equal(lines.join(" "), text);
+    assert.equal(fitsLines(text, 10, 2), false);
+    assert.equal(fitsLines(text, 42, 2), true);
+  });
+});
+
+describe("paginateLines", () => {
+  it("splits Latin text into pages of at most maxLines lines", () => {
+    const text = "This sentence is long enough that it cannot fit on two lines of twenty characters each, so it pages";
+    const pages = paginateLines(text, 20, 2);
+
+    assert.deepEqual(pages, [
+      ["This sentence is", "long enough that it"],
+      ["cannot fit on two", "lines of twenty"],
+      ["characters each,", "so it pages"],
+    ]);
+    assert.equal(pages.flat().join(" "), text);
+  });
+
+  it("splits CJK text into pages that join back without spaces", () => {
+    const text = `${JAPANESE}週末は山に行きたいと思っています。`;
+    const pages = paginateLines(text, 13, 2);
+
+    assert.equal(pages.length, 2);
+    pages.flat().forEach((line) => {
+      assert.ok(line.length <= 13, `${line} is longer than 13 characters`);
+      assert.doesNotMatch(line, NO_LINE_START);
+    });
+    assert.equal(pages.flat().join(""), text);
+  });
+});
+
+describe("unwrapLines and rewrapLines", () => {
+  it("joins Latin lines with a space and CJK lines without one", () => {
+    assert.equal(unwrapLines("Hello,\n world"), "Hello, world");
+    assert.equal(unwrapLines("今日はとても良い天気です\nね。"), "今日はとても良い天気ですね。");
+  });
+
+  it("keeps a cue's own line breaks when they fit", () => {
+    assert.deepEqual(rewrapLines("Short\nlines", 42, 2), ["Short", "lines"]);
+    assert.deepEqual(rewrapLines("One\ntwo\nthree", 42, 2), ["One two three"]);
+  });
+});
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { formatSbvTime, serializeSbv } from "../sbv";
+import { SubtitleCue } from "../types";
+
+import { assertCloseTo, FIXTURE_CUES, parseClockTime } from "./fixtures";
+
+function parseSbv(content: string): SubtitleCue[] {
+  return content
+    .trim()
+    .split(/\n\n+/)
+    .map((block) => {
+      const [timing, ...lines] = block.split("\n");
+      const [start, end] = timing.split(",").map(parseClockTime);
+      return { start, end, text: lines.join("\n") };
+    });
+}
+
+describe("serializeSbv", () => {
+  it("writes unpadded hours", () => {
+    assert.equal(formatSbvTime(1.5), "0:00:01.500");
+    assert.equal(formatSbvTime(3725.004), "1:02:05.004");
+  });
+
+  it("reads back the same timing and text", () => {
+    const parsed = parseSbv(serializeSbv(FIXTURE_CUES));
+
+    assert.equal(parsed.length, FIXTURE_CUES.length);
+    parsed.forEach((cue, index) => {
+      assertCloseTo(cue.start, FIXTURE_CUES[index].start, 0.001, `cue ${index} start`);
+      assertCloseTo(cue.end, FIXTURE_CUES[index].end, 0.001, `cue ${index} end`);
+      assert.equal(cue.text, FIXTURE_CUES[index].text);
+    });
+  });
+});
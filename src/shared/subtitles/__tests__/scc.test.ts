@@ -0,0 +1,161 @@
+/* eslint-disable no-unused-vars */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { formatSccTimecode, serializeScc } from "../scc";
+
+import { assertCloseTo, FIXTURE_CUES } from "./fixtures";
+
+const SCC_FPS = 30000 / 1001;
+const HALF_FRAME = 0.5 / SCC_FPS + 1e-6;
+const BASIC_CHARACTERS: Record<number, string> = {
+  0x2a: "á", 0x5c: "é", 0x5e: "í", 0x5f: "ó", 0x60: "ú", 0x7b: "ç", 0x7c: "÷", 0x7d: "Ñ", 0x7e: "ñ",
+};
+const PAC_ROWS: Record<number, number> = { 0x13: 12, 0x14: 14 };
+
+interface SccRow {
+  row: number;
+  column: number;
+  text: string;
+}
+
+interface SccCaption {
+  start: number;
+  end?: number;
+  rows: SccRow[];
+}
+
+// Drop-frame labels skip frames 00 and 01 of every minute except each tenth
+function parseDropFrame(timecode: string): number {
+  const [hours, minutes, seconds, frames] = timecode.split(/[:;]/).map(Number);
+  const totalMinutes = hours * 60 + minutes;
+  const labelled = (totalMinutes * 60 + seconds) * 30 + frames;
+  return labelled - 2 * (totalMinutes - Math.floor(totalMinutes / 10));
+}
+
+function hasOddParity(byte: number): boolean {
+  let ones = 0;
+  for (let bits = byte; bits; bits >>= 1) ones += bits & 1;
+  return ones % 2 === 1;
+}
+
+// Each word is two bytes, both sent with odd parity
+function decodeWord(word: string): [number, number] {
+  const bytes = [parseInt(word.slice(0, 2), 16), parseInt(word.slice(2), 16)];
+  bytes.forEach((byte) => assert.ok(hasOddParity(byte), `byte ${byte.toString(16)} of ${word} lacks odd parity`));
+  return [bytes[0] & 0x7f, bytes[1] & 0x7f];
+}
+
+// Preamble address codes place a row; bit 4 of the second byte selects an indent of 4 * n columns
+function decodePac(first: number, second: number): SccRow {
+  const row = PAC_ROWS[first] + (second >= 0x60 ? 1 : 0);
+  const indent = second & 0x10 ? ((second & 0x0e) >> 1) * 4 : 0;
+  return { row, column: indent, text: "" };
+}
+
+function decodeCharacters(first: number, second: number): string {
+  return [first, second]
+    .filter((byte) => byte >= 0x20)
+    .map((byte) => BASIC_CHARACTERS[byte] ?? String.fromCharCode(byte))
+    .join("");
+}
+
+interface SccDecoder {
+  captions: SccCaption[];
+  loading: SccCaption;
+}
+
+// Resume caption loading, end of caption (show what was loaded) and erase displayed memory
+const CAPTION_COMMANDS: Record<string, (decoder: SccDecoder, frame: number) => void> = {
+  "1420": (decoder) => {
+    decoder.loading = { start: 0, rows: [] };
+  },
+  "142f": (decoder, frame) => {
+    decoder.captions.push({ ...decoder.loading, start: frame / SCC_FPS });
+  },
+  "142c": (decoder, frame) => {
+    const shown = decoder.captions[decoder.captions.length - 1];
+    if (shown) shown.end = frame / SCC_FPS;
+  },
+};
+
+// Act on one control code: a caption command, a tab offset or a preamble address code
+function applyControl(decoder: SccDecoder, [first, second]: number[], frame: number): void {
+  const command = CAPTION_COMMANDS[`${first.toString(16)}${second.toString(16)}`];
+  const { rows } = decoder.loading;
+  if (command) {
+    command(decoder, frame);
+  } else if (first === 0x17 && second >= 0x21 && second <= 0x23) {
+    rows[rows.length - 1].column += second - 0x20;
+  } else if (first in PAC_ROWS && second >= 0x40) {
+    rows.push(decodePac(first, second));
+  }
+}
+
+function parseScc(content: string): SccCaption[] {
+  const [header, ...lines] = content.split("\n").filter(Boolean);
+  assert.equal(header, "Scenarist_SCC V1.0");
+
+  const decoder: SccDecoder = { captions: [], loading: { start: 0, rows: [] } };
+  let previous = "";
+
+  for (const line of lines) {
+    const [timecode, words] = line.split("\t");
+    words.split(" ").forEach((word, index) => {
+      const [first, second] = decodeWord(word);
+      const isControl = first >= 0x10 && first <= 0x1f;
+      // Control codes are doubled; the repeat is not acted on
+      if (isControl && word === previous) {
+        previous = "";
+      } else if (isControl) {
+        previous = word;
+        applyControl(decoder, [first, second], parseDropFrame(timecode) + index);
+      } else {
+        previous = word;
+        const { rows } = decoder.loading;
+        rows[rows.length - 1].text += decodeCharacters(first, second);
+      }
+    });
+  }
+  return decoder.captions;
+}
+
+describe("serializeScc", () => {
+  it("formats drop-frame timecodes", () => {
+    assert.equal(formatSccTimecode(0), "00:00:00;00");
+    assert.equal(formatSccTimecode(1800), "00:01:00;02");
+    assert.equal(formatSccTimecode(17982), "00:10:00;00");
+    assert.equal(parseDropFrame(formatSccTimecode(54321)), 54321);
+  });
+
+  it("sends centered preamble address codes with odd parity", () => {
+    const content = serializeScc([FIXTURE_CUES[0]]);
+
+    // Row 14 at column 9: PAC 14 54, tab offset 17 21
+    assert.match(content, /9454 9454 97a1 97a1/);
+    // Row 15 at column 10: PAC 14 74, tab offset 17 22
+    assert.match(content, /94f4 94f4 97a2 97a2/);
+    // Resume caption loading, erase non-displayed memory, end of caption
+    assert.match(content, /9420 9420 94ae 94ae/);
+    assert.match(content, /942f 942f$/m);
+  });
+
+  it("reads back the same timing and text", () => {
+    const parsed = parseScc(serializeScc(FIXTURE_CUES));
+
+    assert.equal(parsed.length, FIXTURE_CUES.length);
+    parsed.forEach((caption, index) => {
+      const cue = FIXTURE_CUES[index];
+      assert.ok(caption.end !== undefined, `cue ${index} is never erased`);
+      // Rounded to the nearest frame
+      assertCloseTo(caption.start, cue.start, HALF_FRAME, `cue ${index} start`);
+      assertCloseTo(caption.end, cue.end, HALF_FRAME, `cue ${index} end`);
+      assert.equal(caption.rows.map(({ text }) => text).join("\n"), cue.text);
+      caption.rows.forEach(({ row, column, text }, rowIndex) => {
+        assert.equal(row, 16 - caption.rows.length + rowIndex);
+        assert.equal(column, Math.floor((32 - text.length) / 2));
+      });
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { DEFAULT_SEGMENTATION_RULES } from "../rules";
+import { segmentTranscript } from "../segmentation";
+import { TimedWord } from "../types";
+
+const RULES = DEFAULT_SEGMENTATION_RULES;
+
+// Words spoken back to back from `start`, each lasting `duration` seconds
+function speak(text: string, start: number, duration: number = 0.3): TimedWord[] {
+  return text.split(" ").map((word, index) => ({
+    word,
+    start: start + index * duration,
+    end: start + (index + 1) * duration,
+  }));
+}
+
+function transcribe(words: TimedWord[]) {
+  const text = words.map(({ word }) => word).join(" ");
+  return { segments: [{ start: words[0].start, end: words[words.length - 1].end, text }], words };
+}
+
+describe("segmentTranscript with word timings", () => {
+  it("starts a new cue after a pause of maxPause or more", () => {
+    const words = [...speak("one two three", 0, 0.5), ...speak("four five six", 3, 0.5)];
+    const cues = segmentTranscript(transcribe(words), RULES);
+
+    assert.deepEqual(cues.map(({ text }) => text), ["one two three", "four five six"]);
+    assert.deepEqual(cues.map(({ start, end }) => [start, end]), [[0, 1.5], [3, 4.5]]);
+    assert.deepEqual(cues[1].words, words.slice(3));
+  });
+
+  it("ends a cue with its sentence once it has enough text", () => {
+    const words = speak("This is the first sentence. And here is the second one.", 0);
+    const cues = segmentTranscript(transcribe(words), RULES);
+
+    assert.deepEqual(cues.map(({ text }) => text), ["This is the first sentence.", "And here is the second one."]);
+  });
+
+  it("keeps a short sentence with the words that follow it", () => {
+    const cues = segmentTranscript(transcribe(speak("Yes. I agree with that.", 0)), RULES);
+
+    assert.deepEqual(cues.map(({ text }) => text), ["Yes. I agree with that."]);
+  });
+
+  it("splits text that would not fit on maxLines lines", () => {
+    const words = speak("alpha bravo charlie delta echo foxtrot golf hotel india juliet kilo lima mike november oscar papa quebec", 0, 0.2);
+    const cues = segmentTranscript(transcribe(words), RULES);
+
+    assert.ok(cues.length > 1);
+    cues.forEach(({ text }) => {
+      const lines = text.split("\n");
+      assert.ok(lines.length <= RULES.maxLines, `${text} has more than ${RULES.maxLines} lines`);
+      lines.forEach((line) => assert.ok(line.length <= RULES.maxCharsPerLine, `${line} is too long`));
+    });
+  });
+});
+
+describe("segmentTranscript without word timings", () => {
+  it("ends cues at segment boundaries", () => {
+    const cues = segmentTranscript(
+      {
+        segments: [
+          { start: 0, end: 2, text: "First segment" },
+          { start: 2, end: 4, text: "Second segment" },
+        ],
+      },
+      RULES
+    );
+
+    assert.deepEqual(
+      cues.map(({ start, end, text, words }) => ({ start, end, text, words })),
+      [
+        { start: 0, end: 2, text: "First segment", words: undefined },
+        { start: 2, end: 4, text: "Second segment", words: undefined },
+      ]
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { formatSrtTime, serializeSrt } from "../srt";
+import { SubtitleCue } from "../types";
+
+import { assertCloseTo, FIXTURE_CUES, parseClockTime } from "./fixtures";
+
+function parseSrt(content: string): (SubtitleCue & { index: number })[] {
+  return content
+    .trim()
+    .split(/\n\n+/)
+    .map((block) => {
+      const [index, timing, ...lines] = block.split("\n");
+      const [start, end] = timing.split(" --> ").map((time) => parseClockTime(time.replace(",", ".")));
+      return { index: Number(index), start, end, text: lines.join("\n") };
+    });
+}
+
+describe("serializeSrt", () => {
+  it("writes comma-separated milliseconds", () => {
+    assert.equal(formatSrtTime(1.5), "00:00:01,500");
+    assert.equal(formatSrtTime(3725.004), "01:02:05,004");
+    assert.equal(formatSrtTime(-1), "00:00:00,000");
+  });
+
+  it("writes numbered blocks separated by a blank line", () => {
+    assert.equal(
+      serializeSrt(FIXTURE_CUES.slice(0, 2)),
+      "1\n00:00:01,500 --> 00:00:03,250\nHello, world!\nSecond line\n\n2\n00:00:04,000 --> 00:00:06,200\nCafé & <tags>\n"
+    );
+  });
+
+  it("drops blank lines that would end a cue early", () => {
+    const [cue] = parseSrt(serializeSrt([{ start: 0, end: 1, text: "First\n\n  Second  " }]));
+
+    assert.equal(cue.text, "First\nSecond");
+  });
+
+  it("reads back the same timing and text", () => {
+    const parsed = parseSrt(serializeSrt(FIXTURE_CUES));
+
+    assert.equal(parsed.length, FIXTURE_CUES.length);
+    parsed.forEach((cue, index) => {
+      assert.equal(cue.index, index + 1);
+      assertCloseTo(cue.start, FIXTURE_CUES[index].start, 0.001, `cue ${index} start`);
+      assertCloseTo(cue.end, FIXTURE_CUES[index].end, 0.001, `cue ${index} end`);
+      assert.equal(cue.text, FIXTURE_CUES[index].text);
+    });
+  });
+});
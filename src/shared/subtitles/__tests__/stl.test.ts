@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { serializeStl } from "../stl";
+
+import { assertCloseTo, FIXTURE_CUES } from "./fixtures";
+
+const GSI_SIZE = 1024;
+const TTI_SIZE = 128;
+const DIACRITICS: Record<number, string> = {
+  0xc1: "\u0300", 0xc2: "\u0301", 0xc3: "\u0302", 0xc4: "\u0303", 0xc5: "\u0304", 0xc6: "\u0306",
+  0xc7: "\u0307", 0xc8: "\u0308", 0xca: "\u030a", 0xcb: "\u0327", 0xcd: "\u030b", 0xce: "\u0328", 0xcf: "\u030c",
+};
+const SPECIAL_CHARACTERS: Record<number, string> = {
+  0xa4: "$", 0xa1: "¡", 0xa3: "£", 0xbf: "¿", 0xe1: "Æ", 0xe9: "Ø", 0xea: "Œ", 0xf1: "æ", 0xf9: "ø", 0xfa: "œ", 0xfb: "ß",
+};
+// Double height, start box and end box only style the row
+const STYLE_CODES = new Set([0x0d, 0x0b, 0x0a]);
+const NEW_LINE = 0x8a;
+const UNUSED = 0x8f;
+const HALF_FRAME = 0.5 / 25 + 1e-6;
+
+interface TtiSubtitle {
+  number: number;
+  extensionBlocks: number[];
+  start: number;
+  end: number;
+  verticalPosition: number;
+  justification: number;
+  text: string;
+}
+
+function readAscii(file: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...file.slice(offset, offset + length));
+}
+
+function decodeTextField(bytes: number[]): string {
+  let text = "";
+  let diacritic = "";
+  bytes.forEach((byte, index) => {
+    if (byte === NEW_LINE) {
+      // Double-height rows send each break twice
+      if (bytes[index - 1] !== NEW_LINE) text += "\n";
+    } else if (byte in DIACRITICS) {
+      diacritic = DIACRITICS[byte];
+    } else if (!STYLE_CODES.has(byte)) {
+      text += `${SPECIAL_CHARACTERS[byte] ?? String.fromCharCode(byte)}${diacritic}`.normalize("NFC");
+      diacritic = "";
+    }
+  });
+  return text;
+}
+
+function toSeconds([hours, minutes, seconds, frames]: Uint8Array, fps: number): number {
+  return hours * 3600 + minutes * 60 + seconds + frames / fps;
+}
+
+// Blocks of one subtitle share its number; their text fields continue one another
+function parseTtiBlocks(file: Uint8Array, fps: number): TtiSubtitle[] {
+  const subtitles: TtiSubtitle[] = [];
+  const texts: number[][] = [];
+
+  for (let offset = GSI_SIZE; offset < file.length; offset += TTI_SIZE) {
+    const block = file.slice(offset, offset + TTI_SIZE);
+    const number = block[1] | (block[2] << 8);
+    const field = Array.from(block.slice(16)).filter((byte) => byte !== UNUSED);
+
+    if (subtitles[subtitles.length - 1]?.number !== number) {
+      subtitles.push({
+        number,
+        extensionBlocks: [],
+        start: toSeconds(block.slice(5, 9), fps),
+        end: toSeconds(block.slice(9, 13), fps),
+        verticalPosition: block[13],
+        justification: block[14],
+        text: "",
+      });
+      texts.push([]);
+    }
+    subtitles[subtitles.length - 1].extensionBlocks.push(block[3]);
+    texts[texts.length - 1].push(...field);
+  }
+  return subtitles.map((subtitle, index) => ({ ...subtitle, text: decodeTextField(texts[index]) }));
+}
+
+describe("serializeStl", () => {
+  it("writes a GSI block describing the file", () => {
+    const file = serializeStl(FIXTURE_CUES, { language: "fr", fps: 25, title: "Fixture" });
+
+    assert.equal(file.length, GSI_SIZE + FIXTURE_CUES.length * TTI_SIZE);
+    assert.equal(readAscii(file, 0, 3), "850");
+    assert.equal(readAscii(file, 3, 8), "STL25.01");
+    assert.equal(readAscii(file, 14, 2), "0F");
+    assert.equal(readAscii(file, 16, 32).trimEnd(), "Fixture");
+    assert.equal(readAscii(file, 238, 5), "00003");
+    assert.equal(readAscii(file, 243, 5), "00003");
+    // First cue at 1.5 s: 00:00:01, frame 13 (rounded up from 12.5)
+    assert.equal(readAscii(file, 264, 8), "00000113");
+  });
+
+  it("reads back the same timing, text and position", () => {
+    const subtitles = parseTtiBlocks(serializeStl(FIXTURE_CUES, { fps: 25 }), 25);
+
+    assert.equal(subtitles.length, FIXTURE_CUES.length);
+    subtitles.forEach((subtitle, index) => {
+      const cue = FIXTURE_CUES[index];
+      assert.equal(subtitle.number, index + 1);
+      assert.deepEqual(subtitle.extensionBlocks, [0xff]);
+      // Rounded to the nearest frame
+      assertCloseTo(subtitle.start, cue.start, HALF_FRAME, `cue ${index} start`);
+      assertCloseTo(subtitle.end, cue.end, HALF_FRAME, `cue ${index} end`);
+      assert.equal(subtitle.text, cue.text);
+      assert.equal(subtitle.verticalPosition, 22 - cue.text.split("\n").length * 2);
+      assert.equal(subtitle.justification, 2);
+    });
+  });
+
+  it("continues long text in numbered extension blocks", () => {
+    const text = `${"é".repeat(37)}\n${"ñ".repeat(37)}`;
+    const [subtitle] = parseTtiBlocks(serializeStl([{ start: 0, end: 2, text }]), 25);
+
+    assert.deepEqual(subtitle.extensionBlocks, [0, 0xff]);
+    assert.equal(subtitle.text, text);
+  });
+});
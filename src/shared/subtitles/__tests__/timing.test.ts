@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { DEFAULT_SEGMENTATION_RULES } from "../rules";
+import { applyCueTiming } from "../timing";
+
+import { assertCloseTo } from "./fixtures";
+
+const RULES = DEFAULT_SEGMENTATION_RULES;
+const EPSILON = 1e-9;
+
+describe("applyCueTiming", () => {
+  it("extends short cues to minDuration and to their reading time", () => {
+    const [short, long] = applyCueTiming(
+      [
+        { start: 1, end: 1.2, text: "Hi" },
+        { start: 10, end: 10.5, text: "x".repeat(34) },
+      ],
+      RULES
+    );
+
+    assertCloseTo(short.end, 1 + RULES.minDuration, EPSILON, "short cue end");
+    // 34 characters at 17 per second
+    assertCloseTo(long.end, 12, EPSILON, "long cue end");
+  });
+
+  it("caps cues at maxDuration", () => {
+    const [cue] = applyCueTiming([{ start: 0, end: 10, text: "Held for a long time" }], RULES);
+
+    assertCloseTo(cue.end, RULES.maxDuration, EPSILON, "cue end");
+  });
+
+  it("ends a cue minGap before the next one starts", () => {
+    const [first, second] = applyCueTiming(
+      [
+        { start: 0, end: 2, text: "First" },
+        { start: 2, end: 4, text: "Second" },
+      ],
+      RULES
+    );
+
+    assertCloseTo(first.end, 2 - RULES.minGap, EPSILON, "first cue end");
+    assertCloseTo(second.start, 2, EPSILON, "second cue start");
+  });
+});
+
+describe("applyCueTiming with fps", () => {
+  it("snaps to frames and rounds the gap up to whole frames with fps", () => {
+    const [first, second] = applyCueTiming(
+      [
+        { start: 0.01, end: 2.5, text: "First" },
+        { start: 2.03, end: 4, text: "Second" },
+      ],
+      RULES,
+      25
+    );
+
+    // 2/24 s is 2.08 frames at 25 fps, so the gap is 3 frames
+    assertCloseTo(first.start, 0, EPSILON, "first cue start");
+    assertCloseTo(second.start, 2.04, EPSILON, "second cue start");
+    assertCloseTo(first.end, 2.04 - 3 / 25, EPSILON, "first cue end");
+    assert.equal(Math.abs(first.end * 25 - Math.round(first.end * 25)) < EPSILON, true);
+  });
+
+  it("keeps at least one frame when the next cue starts right away", () => {
+    const [first] = applyCueTiming(
+      [
+        { start: 1, end: 1.5, text: "First" },
+        { start: 1.04, end: 3, text: "Second" },
+      ],
+      RULES,
+      25
+    );
+
+    assertCloseTo(first.end, 1.04, EPSILON, "first cue end");
+  });
+});
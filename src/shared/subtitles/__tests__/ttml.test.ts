@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { serializeTtml } from "../ttml";
+import { SubtitleCue } from "../types";
+
+import { assertCloseTo, FIXTURE_CUES, parseClockTime } from "./fixtures";
+
+const ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">", "&quot;": '"' };
+
+function decodeXmlText(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot);/g, (entity) => ENTITIES[entity]);
+}
+
+function parseTtml(content: string): SubtitleCue[] {
+  const paragraphs = content.matchAll(/<p begin="([^"]+)" end="([^"]+)">(.*?)<\/p>/g);
+  return Array.from(paragraphs, ([, begin, end, body]) => ({
+    start: parseClockTime(begin),
+    end: parseClockTime(end),
+    text: body.split("<br/>").map(decodeXmlText).join("\n"),
+  }));
+}
+
+describe("serializeTtml", () => {
+  it("declares the IMSC1 text profile, media time base and language", () => {
+    const content = serializeTtml(FIXTURE_CUES, { language: "fr" });
+
+    assert.match(content, /^<\?xml version="1\.0" encoding="UTF-8"\?>/);
+    assert.match(content, /ttp:profile="http:\/\/www\.w3\.org\/ns\/ttml\/profile\/imsc1\/text"/);
+    assert.match(content, /ttp:timeBase="media"/);
+    assert.match(content, /xml:lang="fr"/);
+  });
+
+  it("escapes markup in cue text", () => {
+    assert.match(serializeTtml(FIXTURE_CUES), /Café &amp; &lt;tags&gt;/);
+  });
+
+  it("reads back the same timing and text", () => {
+    const parsed = parseTtml(serializeTtml(FIXTURE_CUES));
+
+    assert.equal(parsed.length, FIXTURE_CUES.length);
+    parsed.forEach((cue, index) => {
+      assertCloseTo(cue.start, FIXTURE_CUES[index].start, 0.001, `cue ${index} start`);
+      assertCloseTo(cue.end, FIXTURE_CUES[index].end, 0.001, `cue ${index} end`);
+      assert.equal(cue.text, FIXTURE_CUES[index].text);
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { serializeTxt } from "../txt";
+
+import { FIXTURE_CUES } from "./fixtures";
+
+describe("serializeTxt", () => {
+  it("writes one cue per line with its line breaks removed", () => {
+    assert.equal(serializeTxt(FIXTURE_CUES), "Hello, world! Second line\nCafé & <tags>\nOne more\n");
+  });
+
+  it("skips empty cues and writes nothing without text", () => {
+    const cues = [{ start: 0, end: 1, text: " \n " }, { start: 1, end: 2, text: "Only\r\n  this" }];
+
+    assert.equal(serializeTxt(cues), "Only this\n");
+    assert.equal(serializeTxt([]), "");
+  });
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { SubtitleCue } from "../types";
+import { escapeVttText, formatVttTime, serializeVtt } from "../vtt";
+
+import { assertCloseTo, FIXTURE_CUES, parseClockTime } from "./fixtures";
+
+const ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">" };
+
+function decodeVttText(text: string): string {
+  return text.replace(/&(amp|lt|gt);/g, (entity) => ENTITIES[entity]);
+}
+
+function parseVtt(content: string): SubtitleCue[] {
+  const [header, ...blocks] = content.trim().split(/\n\n+/);
+  assert.equal(header, "WEBVTT");
+  return blocks.map((block) => {
+    const [timing, ...lines] = block.split("\n");
+    const [start, end] = timing.split(" --> ").map(parseClockTime);
+    return { start, end, text: decodeVttText(lines.join("\n")) };
+  });
+}
+
+describe("serializeVtt", () => {
+  it("writes dot-separated milliseconds", () => {
+    assert.equal(formatVttTime(1.5), "00:00:01.500");
+    assert.equal(formatVttTime(3725.004), "01:02:05.004");
+  });
+
+  it("escapes markup and the cue timing arrow", () => {
+    assert.equal(escapeVttText("Café & <tags>"), "Café &amp; &lt;tags&gt;");
+    assert.equal(escapeVttText("a --> b\n\nc"), "a --&gt; b\nc");
+  });
+
+  it("starts with the WEBVTT header", () => {
+    assert.equal(
+      serializeVtt([FIXTURE_CUES[2]]),
+      "WEBVTT\n\n00:01:02.040 --> 00:01:05.000\nOne more\n"
+    );
+  });
+
+  it("reads back the same timing and text", () => {
+    const parsed = parseVtt(serializeVtt(FIXTURE_CUES));
+
+    assert.equal(parsed.length, FIXTURE_CUES.length);
+    parsed.forEach((cue, index) => {
+      assertCloseTo(cue.start, FIXTURE_CUES[index].start, 0.001, `cue ${index} start`);
+      assertCloseTo(cue.end, FIXTURE_CUES[index].end, 0.001, `cue ${index} end`);
+      assert.equal(cue.text, FIXTURE_CUES[index].text);
+    });
+  });
+});
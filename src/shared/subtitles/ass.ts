@@ -0,0 +1,138 @@
+import { CAPTION_STYLE_PRESETS, CaptionPosition, CaptionStyle } from "./styles";
+import { SubtitleCue } from "./types";
+
+export interface AssOptions {
+  width: number;
+  height: number;
+  fontName?: string;
+  // Defaults to the "clean" preset
+  style?: CaptionStyle;
+}
+
+const DEFAULT_FONT = "Noto Sans";
+
+// Numpad-style ASS alignment, horizontally centered
+const ASS_ALIGNMENT: Record<CaptionPosition, number> = {
+  bottom: 2,
+  middle: 5,
+  top: 8,
+};
+
+// "#RRGGBB" to ASS &HAABBGGRR, where alpha 00 is opaque
+export function toAssColor(hex: string, opacity: number = 1): string {
+  const [red, green, blue] = [1, 3, 5].map((index) => hex.slice(index, index + 2).toUpperCase());
+  const alpha = Math.round((1 - opacity) * 255).toString(16).padStart(2, "0").toUpperCase();
+  return `&H${alpha}${blue}${green}${red}`;
+}
+
+// ASS timestamps are H:MM:SS.cc (centiseconds)
+export function formatAssTime(seconds: number): string {
+  const totalCentiseconds = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCentiseconds / 360000);
+  const minutes = Math.floor((totalCentiseconds % 360000) / 6000);
+  const secs = Math.floor((totalCentiseconds % 6000) / 100);
+  const centiseconds = totalCentiseconds % 100;
+
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}.${String(centiseconds).padStart(2, "0")}`;
+}
+
+export function escapeAssText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/[{}]/g, "")
+    .replace(/\r?\n/g, "\\N");
+}
+
+// The karaoke style swaps the fills: \k shows a word in SecondaryColour until it is spoken
+function buildStyleLine(
+  { width, height, fontName = DEFAULT_FONT }: AssOptions,
+  style: CaptionStyle,
+  karaoke: boolean = false
+): string {
+  // Scale type size and margins with the frame so portrait and landscape read the same
+  const fontSize = Math.round(Math.min(width, height) * style.fontSize / 100);
+  const marginH = Math.round(width * 0.05);
+  const marginV = Math.round(height * 0.06);
+  const outline = style.outlineWidth > 0 ? Math.max(1, Math.round(fontSize * style.outlineWidth / 100)) : 0;
+  // BorderStyle 3 draws an opaque box in the outline colour, padded by the outline width
+  const border = style.box
+    ? { borderStyle: 3, colour: toAssColor(style.boxColor, style.boxOpacity), width: Math.max(1, Math.round(fontSize * 0.2)) }
+    : { borderStyle: 1, colour: toAssColor(style.outlineColor), width: outline };
+
+  const fills = [toAssColor(style.textColor), toAssColor(style.highlightColor)];
+
+  return [
+    `Style: ${karaoke ? "Karaoke" : "Default"},${style.fontFamily ?? fontName},${fontSize}`,
+    ...(karaoke ? fills.reverse() : fills),
+    border.colour,
+    "&H80000000",
+    style.bold ? -1 : 0,
+    "0,0,0,100,100,0,0",
+    border.borderStyle,
+    border.width,
+    0,
+    ASS_ALIGNMENT[style.position],
+    `${marginH},${marginH},${marginV},1`,
+  ].join(",");
+}
+
+function buildHeader(options: AssOptions, style: CaptionStyle): string[] {
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${options.width}`,
+    `PlayResY: ${options.height}`,
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    buildStyleLine(options, style),
+    ...(style.karaoke ? [buildStyleLine(options, style, true)] : []),
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+  ];
+}
+
+/**
+ * Tag each word with its \k duration in centiseconds, counted from the cue
+ * start. Returns null when the cue has no word timings or its text no
+ * longer lines up with them.
+ */
+export function buildKaraokeText(cue: SubtitleCue, text: string): string | null {
+  const words = cue.words ?? [];
+  const lines = text.split("\n").map((line) => line.split(/\s+/).filter(Boolean));
+  if (words.length === 0 || lines.flat().length !== words.length) return null;
+
+  // Word boundaries, clamped to the cue and kept in order so no duration is negative
+  const toOffset = (seconds: number) => Math.round((Math.min(Math.max(seconds, cue.start), cue.end) - cue.start) * 100);
+  const marks = [...words.map(({ start }) => start), words[words.length - 1].end].map(toOffset);
+  for (let index = 1; index < marks.length; index++) {
+    marks[index] = Math.max(marks[index], marks[index - 1]);
+  }
+
+  let wordIndex = 0;
+  const body = lines
+    .map((tokens) => tokens.map((token) => {
+      const duration = marks[wordIndex + 1] - marks[wordIndex];
+      wordIndex++;
+      return `{\\k${duration}}${escapeAssText(token)}`;
+    }).join(" "))
+    .join("\\N");
+  return marks[0] > 0 ? `{\\k${marks[0]}}${body}` : body;
+}
+
+function buildEvent(cue: SubtitleCue, style: CaptionStyle): string {
+  const text = style.uppercase ? cue.text.toLocaleUpperCase() : cue.text;
+  const karaokeText = style.karaoke ? buildKaraokeText(cue, text) : null;
+  const styleName = karaokeText ? "Karaoke" : "Default";
+  return `Dialogue: 0,${formatAssTime(cue.start)},${formatAssTime(cue.end)},${styleName},,0,0,0,,${karaokeText ?? escapeAssText(text)}`;
+}
+
+export function serializeAss(cues: SubtitleCue[], options: AssOptions): string {
+  const style = options.style ?? CAPTION_STYLE_PRESETS.clean.style;
+  const events = cues.map((cue) => buildEvent(cue, style));
+
+  return [...buildHeader(options, style), ...events, ""].join("\n");
+}
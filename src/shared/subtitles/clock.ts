@@ -0,0 +1,10 @@
+// HH:MM:SS plus milliseconds, as used by SRT (",") and WebVTT (".")
+export function formatClockTime(seconds: number, fractionSeparator: string): string {
+  const totalMilliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMilliseconds / 3600000);
+  const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+  const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+  const milliseconds = totalMilliseconds % 1000;
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}${fractionSeparator}${String(milliseconds).padStart(3, "0")}`;
+}
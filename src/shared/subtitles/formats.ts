@@ -0,0 +1,101 @@
+/* eslint-disable no-unused-vars */
+import { AssOptions, serializeAss } from "./ass";
+import { serializeSbv } from "./sbv";
+import { serializeScc } from "./scc";
+import { serializeSrt } from "./srt";
+import { serializeStl } from "./stl";
+import { serializeTtml } from "./ttml";
+import { serializeTxt } from "./txt";
+import { SubtitleCue } from "./types";
+import { serializeVtt } from "./vtt";
+
+export const SUBTITLE_FORMATS = ["srt", "vtt", "ass", "txt", "ttml", "scc", "stl", "sbv"] as const;
+
+export type SubtitleFormat = (typeof SUBTITLE_FORMATS)[number];
+
+export interface SubtitleFileOptions extends AssOptions {
+  // Target language code, recorded by formats that carry one
+  language?: string;
+  // Source frame rate, for frame-based timecodes
+  fps?: number;
+}
+
+export interface SubtitleFormatDefinition {
+  label: string;
+  extension: string;
+  contentType: string;
+  // Binary formats (EBU-STL) return bytes
+  serialize: (cues: SubtitleCue[], options: SubtitleFileOptions) => string | Uint8Array;
+}
+
+export const SUBTITLE_FORMAT_DEFINITIONS: Record<SubtitleFormat, SubtitleFormatDefinition> = {
+  srt: {
+    label: "SRT Subtitles",
+    extension: "srt",
+    contentType: "application/x-subrip; charset=utf-8",
+    serialize: serializeSrt,
+  },
+  vtt: {
+    label: "VTT Subtitles",
+    extension: "vtt",
+    contentType: "text/vtt; charset=utf-8",
+    serialize: serializeVtt,
+  },
+  ass: {
+    label: "ASS Subtitles",
+    extension: "ass",
+    contentType: "text/x-ssa; charset=utf-8",
+    serialize: serializeAss,
+  },
+  txt: {
+    label: "Plain Text",
+    extension: "txt",
+    contentType: "text/plain; charset=utf-8",
+    serialize: serializeTxt,
+  },
+  ttml: {
+    label: "TTML / IMSC1 (DFXP)",
+    extension: "ttml",
+    contentType: "application/ttml+xml; charset=utf-8",
+    serialize: serializeTtml,
+  },
+  scc: {
+    label: "SCC (CEA-608)",
+    extension: "scc",
+    contentType: "text/plain; charset=us-ascii",
+    serialize: serializeScc,
+  },
+  stl: {
+    label: "EBU-STL",
+    extension: "stl",
+    contentType: "application/octet-stream",
+    serialize: serializeStl,
+  },
+  sbv: {
+    label: "YouTube SBV",
+    extension: "sbv",
+    contentType: "text/plain; charset=utf-8",
+    serialize: serializeSbv,
+  },
+};
+
+export function isSubtitleFormat(value: unknown): value is SubtitleFormat {
+  return typeof value === "string" && (SUBTITLE_FORMATS as readonly string[]).includes(value);
+}
+
+export function serializeSubtitles(
+  format: SubtitleFormat,
+  cues: SubtitleCue[],
+  options: SubtitleFileOptions
+): string | Uint8Array {
+  return SUBTITLE_FORMAT_DEFINITIONS[format].serialize(cues, options);
+}
+
+// Subtitle files are stored next to the language's rendered video
+export function getSubtitleFileKey(
+  jobId: string,
+  targetLang: string,
+  format: SubtitleFormat
+): string {
+  return `processed/${jobId}/${targetLang}/captions.${SUBTITLE_FORMAT_DEFINITIONS[format].extension}`;
+}
@@ -0,0 +1,15 @@
+export * from "./types";
+export * from "./styles";
+export * from "./ass";
+export * from "./srt";
+export * from "./vtt";
+export * from "./txt";
+export * from "./ttml";
+export * from "./scc";
+export * from "./stl";
+export * from "./sbv";
+export * from "./formats";
+export * from "./rules";
+export * from "./layout";
+export * from "./timing";
+export * from "./segmentation";
@@ -0,0 +1,147 @@
+// Line breaking for caption text.
+
+// A piece of text a line may break before; `spaced` units follow a space
+interface BreakUnit {
+  text: string;
+  spaced: boolean;
+}
+
+// Han, kana and CJK punctuation break between characters; Korean keeps its spaces
+const CJK_CHARACTER = /[\u3000-\u303F\u3040-\u30FF\u31F0-\u31FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/;
+
+// Kinsoku: closing punctuation and small kana never start a line, opening brackets never end one
+const NO_LINE_START = new Set(Array.from("、。，．・：；？！ー～…‥々〻ゝゞヽヾ）］｝」』】〕〉》〙〗〟’”,.!?)ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶ"));
+const NO_LINE_END = new Set(Array.from("（［｛「『【〔〈《〘〖〝‘“("));
+
+// Characters of one word, with runs of non-CJK characters (e.g. "iPhone") kept whole
+function splitCharacters(word: string): string[] {
+  const pieces: string[] = [];
+  for (const character of Array.from(word)) {
+    const previous = pieces[pieces.length - 1];
+    if (previous !== undefined && !CJK_CHARACTER.test(character) && !CJK_CHARACTER.test(previous.slice(-1))) {
+      pieces[pieces.length - 1] += character;
+    } else {
+      pieces.push(character);
+    }
+  }
+  return pieces;
+}
+
+// Glue pieces that may not be separated by a line break under the kinsoku rules
+function applyKinsoku(pieces: string[]): string[] {
+  const glued: string[] = [];
+  for (const piece of pieces) {
+    const previous = glued[glued.length - 1];
+    if (previous !== undefined && (NO_LINE_START.has(piece[0]) || NO_LINE_END.has(previous.slice(-1)))) {
+      glued[glued.length - 1] += piece;
+    } else {
+      glued.push(piece);
+    }
+  }
+  return glued;
+}
+
+function splitUnits(text: string): BreakUnit[] {
+  return text.trim().split(/\s+/).filter(Boolean).flatMap((word) => {
+    const pieces = CJK_CHARACTER.test(word) ? applyKinsoku(splitCharacters(word)) : [word];
+    return pieces.map((piece, index) => ({ text: piece, spaced: index === 0 }));
+  });
+}
+
+function joinUnits(units: BreakUnit[]): string {
+  return units.map(({ text, spaced }, index) => (index > 0 && spaced ? ` ${text}` : text)).join("");
+}
+
+function wrapGreedy(units: BreakUnit[], maxCharsPerLine: number): BreakUnit[][] {
+  const lines: BreakUnit[][] = [];
+  let line: BreakUnit[] = [];
+
+  for (const unit of units) {
+    if (line.length > 0 && joinUnits([...line, unit]).length > maxCharsPerLine) {
+      lines.push(line);
+      line = [unit];
+    } else {
+      line.push(unit);
+    }
+  }
+  return line.length > 0 ? [...lines, line] : lines;
+}
+
+// The two-line split with the most even lengths, or null when no split fits
+function splitBalanced(units: BreakUnit[], maxCharsPerLine: number): string[] | null {
+  let best: string[] | null = null;
+
+  for (let index = 1; index < units.length; index++) {
+    const top = joinUnits(units.slice(0, index));
+    const bottom = joinUnits(units.slice(index));
+    if (top.length > maxCharsPerLine || bottom.length > maxCharsPerLine) continue;
+    if (!best || Math.abs(top.length - bottom.length) < Math.abs(best[0].length - best[1].length)) {
+      best = [top, bottom];
+    }
+  }
+  return best;
+}
+
+function wrapUnits(units: BreakUnit[], maxCharsPerLine: number, maxLines: number): string[] {
+  const singleLine = joinUnits(units);
+
+  if (singleLine.length <= maxCharsPerLine) return singleLine ? [singleLine] : [];
+  if (maxLines >= 2) {
+    const balanced = splitBalanced(units, maxCharsPerLine);
+    if (balanced) return balanced;
+  }
+  return wrapGreedy(units, maxCharsPerLine).map(joinUnits);
+}
+
+/**
+ * Break text into lines of at most maxCharsPerLine, as two balanced lines
+ * when that fits. Chinese and Japanese break between characters, following
+ * the kinsoku rules. Text too long for maxLines wraps onto extra lines rather
+ * than being cut; callers that control the text check `fitsLines` first or
+ * use `paginateLines`.
+ */
+export function wrapLines(text: string, maxCharsPerLine: number, maxLines: number = 2): string[] {
+  return wrapUnits(splitUnits(text), maxCharsPerLine, maxLines);
+}
+
+/**
+ * Break text into pages of at most maxLines lines each, for text that has to
+ * be shown over several cues. Each page is wrapped on its own, so it gets
+ * balanced lines too.
+ */
+export function paginateLines(text: string, maxCharsPerLine: number, maxLines: number): string[][] {
+  const lines = wrapGreedy(splitUnits(text), maxCharsPerLine);
+  const pages: string[][] = [];
+
+  for (let index = 0; index < lines.length; index += maxLines) {
+    pages.push(wrapUnits(lines.slice(index, index + maxLines).flat(), maxCharsPerLine, maxLines));
+  }
+  return pages;
+}
+
+// Join wrapped lines back into running text; CJK lines join without a space
+export function unwrapLines(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .reduce((joined, line) => {
+      if (!joined) return line;
+      const tight = CJK_CHARACTER.test(joined.slice(-1)) && CJK_CHARACTER.test(line[0]);
+      return tight ? `${joined}${line}` : `${joined} ${line}`;
+    }, "");
+}
+
+export function fitsLines(text: string, maxCharsPerLine: number, maxLines: number): boolean {
+  const lines = wrapLines(text, maxCharsPerLine, maxLines);
+  return lines.length <= maxLines && lines.every((line) => line.length <= maxCharsPerLine);
+}
+
+// Keep the cue's own line breaks when they fit; otherwise wrap it again
+export function rewrapLines(text: string, maxCharsPerLine: number, maxLines: number): string[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (lines.length <= maxLines && lines.every((line) => line.length <= maxCharsPerLine)) {
+    return lines;
+  }
+  return wrapLines(unwrapLines(text), maxCharsPerLine, maxLines);
+}
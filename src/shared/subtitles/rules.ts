@@ -0,0 +1,38 @@
+// Caption layout and reading-speed rules, with per-language overrides.
+
+export interface SegmentationRules {
+  maxCharsPerLine: number;
+  maxLines: number;
+  // Seconds a cue stays on screen
+  minDuration: number;
+  maxDuration: number;
+  // Reading speed the cue's duration must allow for
+  maxCharsPerSecond: number;
+  // Seconds between consecutive cues, rounded up to whole frames
+  minGap: number;
+  // A pause this long between words always starts a new cue
+  maxPause: number;
+}
+
+export const DEFAULT_SEGMENTATION_RULES: SegmentationRules = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  minDuration: 5 / 6,
+  maxDuration: 7,
+  maxCharsPerSecond: 17,
+  minGap: 2 / 24,
+  maxPause: 1,
+};
+
+// Denser scripts get shorter lines; reading speeds follow common broadcast guidelines
+const LANGUAGE_RULES: Record<string, Partial<SegmentationRules>> = {
+  en: { maxCharsPerSecond: 20 },
+  hi: { maxCharsPerSecond: 22 },
+  ja: { maxCharsPerLine: 13, maxCharsPerSecond: 4 },
+  zh: { maxCharsPerLine: 16, maxCharsPerSecond: 9 },
+  ko: { maxCharsPerLine: 16, maxCharsPerSecond: 12 },
+};
+
+export function getSegmentationRules(language: string): SegmentationRules {
+  return { ...DEFAULT_SEGMENTATION_RULES, ...LANGUAGE_RULES[language] };
+}
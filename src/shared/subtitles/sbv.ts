@@ -0,0 +1,16 @@
+import { formatClockTime } from "./clock";
+import { SubtitleCue } from "./types";
+
+// YouTube SBV timestamps are H:MM:SS.mmm with unpadded hours
+export function formatSbvTime(seconds: number): string {
+  return formatClockTime(seconds, ".").replace(/^0(\d)/, "$1");
+}
+
+export function serializeSbv(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue) => {
+      const text = cue.text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean).join("\n");
+      return `${formatSbvTime(cue.start)},${formatSbvTime(cue.end)}\n${text}\n`;
+    })
+    .join("\n");
+}
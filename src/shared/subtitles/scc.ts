@@ -0,0 +1,159 @@
+// Scenarist SCC: CEA-608 pop-on captions on channel 1, 29.97 fps drop-frame.
+
+import { rewrapLines } from "./layout";
+import { SubtitleCue } from "./types";
+
+const SCC_FPS = 30000 / 1001;
+const SCC_COLUMNS = 32;
+const SCC_MAX_ROWS = 4;
+
+// Channel 1 control codes (before parity)
+const RESUME_CAPTION_LOADING = [0x14, 0x20];
+const ERASE_NON_DISPLAYED = [0x14, 0x2e];
+const END_OF_CAPTION = [0x14, 0x2f];
+const ERASE_DISPLAYED = [0x14, 0x2c];
+
+// Preamble address code first bytes for rows 12-15; rows 13 and 15 add 0x20 to the second byte
+const PAC_ROWS: Record<number, [number, number]> = {
+  12: [0x13, 0x40],
+  13: [0x13, 0x60],
+  14: [0x14, 0x40],
+  15: [0x14, 0x60],
+};
+
+// Letters the 608 basic set puts in place of ASCII punctuation
+const BASIC_CHARACTERS: Record<string, number> = {
+  "á": 0x2a, "é": 0x5c, "í": 0x5e, "ó": 0x5f, "ú": 0x60,
+  "ç": 0x7b, "÷": 0x7c, "Ñ": 0x7d, "ñ": 0x7e,
+};
+
+// Two-byte special characters
+const SPECIAL_CHARACTERS: Record<string, number> = {
+  "®": 0x30, "°": 0x31, "½": 0x32, "¿": 0x33, "™": 0x34, "¢": 0x35, "£": 0x36, "♪": 0x37,
+  "à": 0x38, "è": 0x3a, "â": 0x3b, "ê": 0x3c, "î": 0x3d, "ô": 0x3e, "û": 0x3f,
+};
+
+// ASCII codes the basic set reuses for other glyphs
+const UNSUPPORTED_ASCII = new Set(["*", "\\", "^", "_", "`", "{", "|", "}", "~"]);
+
+function withParity(byte: number): number {
+  let ones = 0;
+  for (let bits = byte; bits; bits >>= 1) ones += bits & 1;
+  return ones % 2 === 0 ? byte | 0x80 : byte;
+}
+
+function toWord([first, second]: number[]): string {
+  return ((withParity(first) << 8) | withParity(second)).toString(16).padStart(4, "0");
+}
+
+// Control codes are sent twice so a single corrupted pair is not acted on
+function controlWords(code: number[]): string[] {
+  return [toWord(code), toWord(code)];
+}
+
+function encodeCharacter(char: string): { basic?: number; special?: number } {
+  if (char in BASIC_CHARACTERS) return { basic: BASIC_CHARACTERS[char] };
+  if (char in SPECIAL_CHARACTERS) return { special: SPECIAL_CHARACTERS[char] };
+
+  // Fall back to the unaccented letter; other scripts have no 608 glyphs
+  const plain = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  if (plain.length === 1 && plain >= " " && plain <= "~" && !UNSUPPORTED_ASCII.has(plain)) {
+    return { basic: plain.charCodeAt(0) };
+  }
+  return {};
+}
+
+function encodeText(text: string): string[] {
+  const words: string[] = [];
+  let pending: number | null = null;
+
+  for (const char of text) {
+    const { basic, special } = encodeCharacter(char);
+    if (basic !== undefined) {
+      if (pending === null) {
+        pending = basic;
+      } else {
+        words.push(toWord([pending, basic]));
+        pending = null;
+      }
+    } else if (special !== undefined) {
+      // Special characters must start on a word boundary
+      if (pending !== null) words.push(toWord([pending, 0x00]));
+      pending = null;
+      words.push(...controlWords([0x11, special]));
+    }
+  }
+  if (pending !== null) words.push(toWord([pending, 0x00]));
+  return words;
+}
+
+// Position a centered row: indent in steps of four, then tab offsets for the remainder
+function positionWords(row: number, length: number): string[] {
+  const column = Math.max(0, Math.floor((SCC_COLUMNS - length) / 2));
+  const [first, second] = PAC_ROWS[row];
+  const indent = Math.floor(column / 4);
+  const tabs = column % 4;
+
+  const words = controlWords([first, second + 0x10 + indent * 2]);
+  return tabs > 0 ? [...words, ...controlWords([0x17, 0x20 + tabs])] : words;
+}
+
+function buildLoadWords(cue: SubtitleCue): string[] {
+  const lines = rewrapLines(cue.text, SCC_COLUMNS, SCC_MAX_ROWS)
+    .slice(-SCC_MAX_ROWS)
+    .map((line) => line.slice(0, SCC_COLUMNS));
+  const firstRow = 16 - lines.length;
+
+  return [
+    ...controlWords(RESUME_CAPTION_LOADING),
+    ...controlWords(ERASE_NON_DISPLAYED),
+    ...lines.flatMap((line, index) => [...positionWords(firstRow + index, line.length), ...encodeText(line)]),
+    ...controlWords(END_OF_CAPTION),
+  ];
+}
+
+// Drop-frame timecode skips frame numbers 00 and 01 each minute except every tenth
+export function formatSccTimecode(frame: number): string {
+  const tenMinutes = Math.floor(frame / 17982);
+  const remainder = frame % 17982;
+  const skipped = 18 * tenMinutes + (remainder > 2 ? 2 * Math.floor((remainder - 2) / 1798) : 0);
+  const labelled = frame + skipped;
+
+  const frames = labelled % 30;
+  const seconds = Math.floor(labelled / 30) % 60;
+  const minutes = Math.floor(labelled / 1800) % 60;
+  const hours = Math.floor(labelled / 108000);
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)};${pad(frames)}`;
+}
+
+/**
+ * Each cue is loaded off screen so its end-of-caption code lands on the cue
+ * start (one code word per frame; decoders act on the first of the doubled
+ * pair), and erased at its end unless the next cue is already loading by then.
+ */
+export function serializeScc(cues: SubtitleCue[]): string {
+  const blocks: string[] = [];
+  let nextFreeFrame = 0;
+  // The first end-of-caption word is the second to last one loaded
+  const getLoadFrame = (cue: SubtitleCue, wordCount: number) =>
+    Math.round(cue.start * SCC_FPS) - wordCount + 2;
+
+  cues.forEach((cue, index) => {
+    const words = buildLoadWords(cue);
+    const loadFrame = Math.max(nextFreeFrame, getLoadFrame(cue, words.length));
+    blocks.push(`${formatSccTimecode(loadFrame)}\t${words.join(" ")}`);
+    nextFreeFrame = loadFrame + words.length;
+
+    const clearFrame = Math.max(nextFreeFrame, Math.round(cue.end * SCC_FPS));
+    const next = cues[index + 1];
+    const nextLoadFrame = next ? getLoadFrame(next, buildLoadWords(next).length) : Infinity;
+    if (clearFrame + 2 <= nextLoadFrame) {
+      blocks.push(`${formatSccTimecode(clearFrame)}\t${controlWords(ERASE_DISPLAYED).join(" ")}`);
+      nextFreeFrame = clearFrame + 2;
+    }
+  });
+
+  return ["Scenarist_SCC V1.0", "", ...blocks.flatMap((block) => [block, ""])].join("\n");
+}
@@ -0,0 +1,144 @@
+// Turn a timed transcript into caption cues that respect the layout rules.
+
+import { fitsLines, paginateLines, unwrapLines, wrapLines } from "./layout";
+import { SegmentationRules } from "./rules";
+import { applyCueTiming } from "./timing";
+import { SubtitleCue, TimedSegment, TimedWord } from "./types";
+
+export interface TimedTranscript {
+  segments: TimedSegment[];
+  words?: TimedWord[];
+}
+
+const SENTENCE_END = /[.!?。！？…]["'”’)\]]*$/;
+
+function joinWords(words: TimedWord[]): string {
+  return words.map(({ word }) => word).join(" ");
+}
+
+function tokenize(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+// Without word timings, spread the segment's words evenly over its duration
+function interpolateWords(segment: TimedSegment): TimedWord[] {
+  const tokens = tokenize(segment.text);
+  const step = (segment.end - segment.start) / Math.max(tokens.length, 1);
+
+  return tokens.map((word, index) => ({
+    word,
+    start: segment.start + index * step,
+    end: segment.start + (index + 1) * step,
+  }));
+}
+
+// Whisper's word list drops punctuation; reuse the segment's spelling when the tokens line up
+function alignSegmentWords(segment: TimedSegment, words: TimedWord[]): TimedWord[] {
+  if (words.length === 0) return interpolateWords(segment);
+
+  const tokens = tokenize(segment.text);
+  if (tokens.length !== words.length) {
+    return words.map((word) => ({ ...word, word: word.word.trim() })).filter(({ word }) => word);
+  }
+  return words.map((word, index) => ({ ...word, word: tokens[index] }));
+}
+
+// Give each segment the words whose midpoint falls before its end
+function groupWordsBySegment(segments: TimedSegment[], words: TimedWord[]): TimedWord[][] {
+  let cursor = 0;
+
+  return segments.map((segment, index) => {
+    const first = cursor;
+    const isLast = index === segments.length - 1;
+    while (
+      cursor < words.length &&
+      (isLast || (words[cursor].start + words[cursor].end) / 2 < segment.end)
+    ) {
+      cursor++;
+    }
+    return alignSegmentWords(segment, words.slice(first, cursor));
+  });
+}
+
+function shouldBreakBefore(cue: TimedWord[], next: TimedWord, rules: SegmentationRules): boolean {
+  const last = cue[cue.length - 1];
+  if (next.start - last.end >= rules.maxPause) return true;
+  if (next.end - cue[0].start > rules.maxDuration) return true;
+  if (!fitsLines(joinWords([...cue, next]), rules.maxCharsPerLine, rules.maxLines)) return true;
+  // End a cue with its sentence once it has a reasonable amount of text
+  return SENTENCE_END.test(last.word) && joinWords(cue).length >= rules.maxCharsPerLine / 2;
+}
+
+function toCue(words: TimedWord[], rules: SegmentationRules): SubtitleCue {
+  return {
+    start: words[0].start,
+    end: words[words.length - 1].end,
+    text: wrapLines(joinWords(words), rules.maxCharsPerLine, rules.maxLines).join("\n"),
+    words: words.map(({ word, start, end }) => ({ word, start, end })),
+  };
+}
+
+// Split one phrase's words into cues that fit on screen and within maxDuration
+export function segmentWords(words: TimedWord[], rules: SegmentationRules): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let current: TimedWord[] = [];
+
+  for (const word of words) {
+    if (current.length > 0 && shouldBreakBefore(current, word, rules)) {
+      cues.push(toCue(current, rules));
+      current = [];
+    }
+    current.push(word);
+  }
+  if (current.length > 0) cues.push(toCue(current, rules));
+  return cues;
+}
+
+/**
+ * Build cues from a transcript. Segment boundaries always end a cue; long
+ * segments are split using word timestamps (interpolated when the STT gave
+ * none). Timing is left as spoken; see `layoutCues` for reading-speed rules.
+ * Cues keep their word timings only when the STT provided them.
+ */
+export function segmentTranscript(
+  transcript: TimedTranscript,
+  rules: SegmentationRules
+): SubtitleCue[] {
+  const words = transcript.words ?? [];
+  const cues = groupWordsBySegment(transcript.segments, words)
+    .flatMap((group) => segmentWords(group, rules));
+  return words.length > 0 ? cues : cues.map((cue) => ({ ...cue, words: undefined }));
+}
+
+/**
+ * Re-wrap one cue's text. Text that needs more than maxLines (e.g. a longer
+ * translation) is split into several cues: at word timings when the cue has
+ * them, otherwise sharing the cue's time in proportion to each part's length.
+ */
+function rewrapCue(cue: SubtitleCue, rules: SegmentationRules): SubtitleCue[] {
+  const pages = paginateLines(unwrapLines(cue.text), rules.maxCharsPerLine, rules.maxLines);
+  if (pages.length <= 1) return [{ ...cue, text: (pages[0] ?? []).join("\n") }];
+  if (cue.words && cue.words.length > 0) return segmentWords(cue.words, rules);
+
+  const lengths = pages.map((lines) => lines.join("").length);
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  let start = cue.start;
+
+  return pages.map((lines, index) => {
+    const end = index === pages.length - 1
+      ? cue.end
+      : start + ((cue.end - cue.start) * lengths[index]) / total;
+    const part = { ...cue, start, end, text: lines.join("\n") };
+    start = end;
+    return part;
+  });
+}
+
+// Re-wrap cue text (e.g. after translation) and apply the timing rules
+export function layoutCues(
+  cues: SubtitleCue[],
+  rules: SegmentationRules,
+  fps?: number
+): SubtitleCue[] {
+  return applyCueTiming(cues.flatMap((cue) => rewrapCue(cue, rules)), rules, fps);
+}
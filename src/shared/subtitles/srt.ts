@@ -0,0 +1,24 @@
+import { formatClockTime } from "./clock";
+import { SubtitleCue } from "./types";
+
+export function formatSrtTime(seconds: number): string {
+  return formatClockTime(seconds, ",");
+}
+
+// A blank line ends an SRT cue, so empty lines inside the text are dropped
+function normalizeSrtText(text: string): string {
+  return text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean).join("\n");
+}
+
+export function serializeSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) =>
+      [
+        String(index + 1),
+        `${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}`,
+        normalizeSrtText(cue.text),
+        "",
+      ].join("\n")
+    )
+    .join("\n");
+}
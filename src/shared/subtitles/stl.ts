@@ -0,0 +1,143 @@
+// EBU Tech 3264 subtitle files: a 1024-byte GSI header then 128-byte TTI blocks.
+
+import { rewrapLines } from "./layout";
+import { SubtitleCue } from "./types";
+
+export interface StlOptions {
+  language?: string;
+  fps?: number;
+  title?: string;
+}
+
+const GSI_SIZE = 1024;
+const TTI_SIZE = 128;
+const TEXT_FIELD_SIZE = 112;
+// Teletext rows are 40 columns; three go to the double-height and box codes
+const STL_COLUMNS = 37;
+const STL_MAX_ROWS = 2;
+
+const DOUBLE_HEIGHT = 0x0d;
+const START_BOX = 0x0b;
+const END_BOX = 0x0a;
+const NEW_LINE = 0x8a;
+const UNUSED = 0x8f;
+
+// GSI language codes (Tech 3264 appendix 3)
+const LANGUAGE_CODES: Record<string, string> = {
+  de: "08", en: "09", es: "0A", fr: "0F", it: "15", nl: "1D", pt: "21",
+};
+
+// ISO 6937 non-spacing diacritics, sent before the base letter
+const DIACRITICS: Record<string, number> = {
+  "\u0300": 0xc1, "\u0301": 0xc2, "\u0302": 0xc3, "\u0303": 0xc4, "\u0304": 0xc5,
+  "\u0306": 0xc6, "\u0307": 0xc7, "\u0308": 0xc8, "\u030a": 0xca, "\u0327": 0xcb,
+  "\u030b": 0xcd, "\u0328": 0xce, "\u030c": 0xcf,
+};
+
+const SPECIAL_CHARACTERS: Record<string, number> = {
+  "$": 0xa4, "¡": 0xa1, "£": 0xa3, "¿": 0xbf, "Æ": 0xe1, "Ø": 0xe9, "Œ": 0xea,
+  "æ": 0xf1, "ø": 0xf9, "œ": 0xfa, "ß": 0xfb,
+};
+
+function encodeCharacter(char: string): number[] {
+  if (char in SPECIAL_CHARACTERS) return [SPECIAL_CHARACTERS[char]];
+
+  // A letter carries at most one diacritic; extra marks and other scripts are dropped
+  const [base, ...marks] = Array.from(char.normalize("NFD"));
+  if (base < " " || base > "~") return [];
+  const diacritic = marks.map((mark) => DIACRITICS[mark]).find((code) => code !== undefined);
+  return diacritic === undefined ? [base.charCodeAt(0)] : [diacritic, base.charCodeAt(0)];
+}
+
+function encodeTextField(text: string): number[] {
+  const lines = rewrapLines(text, STL_COLUMNS, STL_MAX_ROWS);
+  // Double-height rows take two teletext rows, so each break is sent twice
+  return lines.flatMap((line, index) => [
+    ...(index > 0 ? [NEW_LINE, NEW_LINE] : []),
+    DOUBLE_HEIGHT, START_BOX, START_BOX,
+    ...Array.from(line).flatMap(encodeCharacter),
+    END_BOX, END_BOX,
+  ]);
+}
+
+function toTimecode(seconds: number, fps: number): number[] {
+  const totalFrames = Math.max(0, Math.round(seconds * fps));
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  return [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60, totalSeconds % 60, frames];
+}
+
+function writeAscii(buffer: Uint8Array, offset: number, length: number, value: string): void {
+  for (let index = 0; index < length; index++) {
+    buffer[offset + index] = index < value.length ? value.charCodeAt(index) & 0x7f : 0x20;
+  }
+}
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(date.getUTCFullYear() % 100)}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+function buildGsi(cues: SubtitleCue[], blockCount: number, options: Required<StlOptions>): Uint8Array {
+  const gsi = new Uint8Array(GSI_SIZE).fill(0x20);
+  const date = formatDate(new Date());
+  const timecode = (seconds: number) =>
+    toTimecode(seconds, options.fps).map((part) => String(part).padStart(2, "0")).join("");
+
+  writeAscii(gsi, 0, 3, "850");
+  writeAscii(gsi, 3, 8, `STL${options.fps}.01`);
+  writeAscii(gsi, 11, 1, "1");
+  writeAscii(gsi, 12, 2, "00");
+  writeAscii(gsi, 14, 2, LANGUAGE_CODES[options.language] ?? "00");
+  writeAscii(gsi, 16, 32, options.title);
+  writeAscii(gsi, 224, 6, date);
+  writeAscii(gsi, 230, 6, date);
+  writeAscii(gsi, 236, 2, "00");
+  writeAscii(gsi, 238, 5, String(blockCount).padStart(5, "0"));
+  writeAscii(gsi, 243, 5, String(cues.length).padStart(5, "0"));
+  writeAscii(gsi, 248, 3, "001");
+  writeAscii(gsi, 251, 2, "40");
+  writeAscii(gsi, 253, 2, "23");
+  writeAscii(gsi, 255, 1, "1");
+  writeAscii(gsi, 256, 8, "00000000");
+  writeAscii(gsi, 264, 8, timecode(cues[0]?.start ?? 0));
+  writeAscii(gsi, 272, 1, "1");
+  writeAscii(gsi, 273, 1, "1");
+  return gsi;
+}
+
+// Text longer than one block continues in extension blocks numbered from 0; 0xFF marks the last
+function buildTtiBlocks(cue: SubtitleCue, number: number, fps: number): Uint8Array[] {
+  const text = encodeTextField(cue.text);
+  const rows = Math.max(1, text.filter((byte) => byte === DOUBLE_HEIGHT).length);
+  const chunkCount = Math.max(1, Math.ceil(text.length / TEXT_FIELD_SIZE));
+
+  return Array.from({ length: chunkCount }, (_, chunk) => {
+    const block = new Uint8Array(TTI_SIZE).fill(UNUSED);
+    block.set([0, number & 0xff, number >> 8, chunk === chunkCount - 1 ? 0xff : chunk, 0]);
+    block.set(toTimecode(cue.start, fps), 5);
+    block.set(toTimecode(cue.end, fps), 9);
+    // Bottom-aligned: the last double-height row ends on teletext row 21
+    block.set([Math.max(1, 22 - rows * 2), 2, 0], 13);
+    block.set(text.slice(chunk * TEXT_FIELD_SIZE, (chunk + 1) * TEXT_FIELD_SIZE), 16);
+    return block;
+  });
+}
+
+/**
+ * Binary EBU-STL with Latin teletext characters, centered double-height
+ * rows and timecodes at 25 fps (or 30 fps for NTSC-rate video).
+ */
+export function serializeStl(cues: SubtitleCue[], options: StlOptions = {}): Uint8Array {
+  const settings: Required<StlOptions> = {
+    language: options.language ?? "",
+    fps: options.fps && Math.round(options.fps) >= 29 ? 30 : 25,
+    title: options.title ?? "",
+  };
+  const blocks = cues.flatMap((cue, index) => buildTtiBlocks(cue, index + 1, settings.fps));
+  const file = new Uint8Array(GSI_SIZE + blocks.length * TTI_SIZE);
+
+  file.set(buildGsi(cues, blocks.length, settings));
+  blocks.forEach((block, index) => file.set(block, GSI_SIZE + index * TTI_SIZE));
+  return file;
+}
@@ -0,0 +1,163 @@
+/* eslint-disable no-unused-vars */
+// How burned-in captions look. Client-safe: the UI previews the same values
+// the worker compiles into the ASS style.
+
+export const CAPTION_POSITIONS = ["bottom", "middle", "top"] as const;
+
+export type CaptionPosition = (typeof CAPTION_POSITIONS)[number];
+
+export interface CaptionStyle {
+  // Defaults to the target language's font
+  fontFamily?: string;
+  // Percent of the frame's shorter side
+  fontSize: number;
+  bold: boolean;
+  uppercase: boolean;
+  // Colors are "#RRGGBB"
+  textColor: string;
+  // Fill for the spoken word in karaoke captions
+  highlightColor: string;
+  // Highlight words as they are spoken; needs word timings, so same-language captions only
+  karaoke: boolean;
+  outlineColor: string;
+  // Percent of the font size; 0 for no outline
+  outlineWidth: number;
+  // Draw a box behind the text instead of an outline
+  box: boolean;
+  boxColor: string;
+  // 0 (transparent) to 1 (opaque)
+  boxOpacity: number;
+  position: CaptionPosition;
+}
+
+export const CAPTION_STYLE_PRESETS = {
+  clean: {
+    label: "Clean",
+    style: {
+      fontSize: 6,
+      bold: false,
+      uppercase: false,
+      textColor: "#FFFFFF",
+      highlightColor: "#FFFFFF",
+      karaoke: false,
+      outlineColor: "#000000",
+      outlineWidth: 7,
+      box: false,
+      boxColor: "#000000",
+      boxOpacity: 0.5,
+      position: "bottom",
+    },
+  },
+  "social-bold": {
+    label: "Social bold",
+    style: {
+      fontSize: 8,
+      bold: true,
+      uppercase: true,
+      textColor: "#FFFFFF",
+      highlightColor: "#FFE14D",
+      karaoke: true,
+      outlineColor: "#000000",
+      outlineWidth: 14,
+      box: false,
+      boxColor: "#000000",
+      boxOpacity: 0.6,
+      position: "middle",
+    },
+  },
+  karaoke: {
+    label: "Karaoke",
+    style: {
+      fontSize: 7,
+      bold: true,
+      uppercase: false,
+      textColor: "#FFFFFF",
+      highlightColor: "#FFD400",
+      karaoke: true,
+      outlineColor: "#000000",
+      outlineWidth: 8,
+      box: true,
+      boxColor: "#000000",
+      boxOpacity: 0.55,
+      position: "bottom",
+    },
+  },
+} satisfies Record<string, { label: string; style: CaptionStyle }>;
+
+export type CaptionStylePresetName = keyof typeof CAPTION_STYLE_PRESETS;
+
+export const DEFAULT_CAPTION_STYLE_PRESET: CaptionStylePresetName = "clean";
+
+// Job request field: a preset name, or a preset with individual overrides
+export type CaptionStyleRequest =
+  | CaptionStylePresetName
+  | (Partial<CaptionStyle> & { preset?: CaptionStylePresetName });
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+// Font names end up inside an ASS style line, where commas separate fields
+const FONT_FAMILY_PATTERN = /^[\w][\w .-]{0,63}$/;
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isColor: FieldCheck = (value) => typeof value === "string" && COLOR_PATTERN.test(value);
+const isBoolean: FieldCheck = (value) => typeof value === "boolean";
+const inRange = (min: number, max: number): FieldCheck => (value) =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+const FIELD_CHECKS: Record<keyof CaptionStyle, [FieldCheck, string]> = {
+  fontFamily: [(value) => typeof value === "string" && FONT_FAMILY_PATTERN.test(value), "a font name"],
+  fontSize: [inRange(3, 15), "a number from 3 to 15"],
+  bold: [isBoolean, "a boolean"],
+  uppercase: [isBoolean, "a boolean"],
+  textColor: [isColor, "a #RRGGBB color"],
+  highlightColor: [isColor, "a #RRGGBB color"],
+  karaoke: [isBoolean, "a boolean"],
+  outlineColor: [isColor, "a #RRGGBB color"],
+  outlineWidth: [inRange(0, 25), "a number from 0 to 25"],
+  box: [isBoolean, "a boolean"],
+  boxColor: [isColor, "a #RRGGBB color"],
+  boxOpacity: [inRange(0, 1), "a number from 0 to 1"],
+  position: [(value) => CAPTION_POSITIONS.includes(value as CaptionPosition), CAPTION_POSITIONS.join(", ")],
+};
+
+export function isCaptionStylePreset(value: unknown): value is CaptionStylePresetName {
+  return typeof value === "string" && Object.hasOwn(CAPTION_STYLE_PRESETS, value);
+}
+
+function getPresetNames(): string {
+  return Object.keys(CAPTION_STYLE_PRESETS).join(", ");
+}
+
+function validateStyleField(field: string, value: unknown): string | null {
+  if (field === "preset") {
+    return isCaptionStylePreset(value) ? null : `captionStyle.preset must be one of: ${getPresetNames()}`;
+  }
+  const check = FIELD_CHECKS[field as keyof CaptionStyle];
+  if (!check) return `Unknown captionStyle field "${field}"`;
+  return check[0](value) ? null : `captionStyle.${field} must be ${check[1]}`;
+}
+
+// Returns an error message, or null when the request is usable
+export function validateCaptionStyle(request: unknown): string | null {
+  if (typeof request === "string") {
+    return isCaptionStylePreset(request) ? null : `captionStyle preset must be one of: ${getPresetNames()}`;
+  }
+  if (!request || typeof request !== "object" || Array.isArray(request)) {
+    return "captionStyle must be a preset name or an object";
+  }
+
+  for (const [field, value] of Object.entries(request)) {
+    const error = validateStyleField(field, value);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Expand a validated request into a full style
+export function resolveCaptionStyle(request: CaptionStyleRequest | undefined): CaptionStyle {
+  if (request === undefined || typeof request === "string") {
+    return { ...CAPTION_STYLE_PRESETS[request ?? DEFAULT_CAPTION_STYLE_PRESET].style };
+  }
+  const { preset = DEFAULT_CAPTION_STYLE_PRESET, ...overrides } = request;
+  return { ...CAPTION_STYLE_PRESETS[preset].style, ...overrides };
+}
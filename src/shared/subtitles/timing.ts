@@ -0,0 +1,42 @@
+// Cue timing: reading speed, minimum and maximum duration, frame-accurate gaps.
+
+import { SegmentationRules } from "./rules";
+import { SubtitleCue } from "./types";
+
+function snapToFrame(seconds: number, fps?: number): number {
+  return fps ? Math.round(seconds * fps) / fps : seconds;
+}
+
+// Round a duration up to whole frames so gaps never shrink below the minimum
+function ceilToFrames(seconds: number, fps?: number): number {
+  return fps ? Math.ceil(seconds * fps - 1e-6) / fps : seconds;
+}
+
+function getReadingDuration(text: string, rules: SegmentationRules): number {
+  const characters = text.replace(/\n/g, "").length;
+  return Math.max(rules.minDuration, characters / rules.maxCharsPerSecond);
+}
+
+/**
+ * Give each cue at least the time its text takes to read (and minDuration),
+ * at most maxDuration, and end it minGap before the next cue starts.
+ * With fps, cue boundaries land on frames and the gap is whole frames.
+ */
+export function applyCueTiming(
+  cues: SubtitleCue[],
+  rules: SegmentationRules,
+  fps?: number
+): SubtitleCue[] {
+  const gap = ceilToFrames(rules.minGap, fps);
+  const minLength = fps ? 1 / fps : 0.01;
+
+  return cues.map((cue, index) => {
+    const next = cues[index + 1];
+    const start = snapToFrame(cue.start, fps);
+    const wanted = Math.max(cue.end, cue.start + getReadingDuration(cue.text, rules));
+    const latest = next ? snapToFrame(next.start, fps) - gap : Infinity;
+    const end = snapToFrame(Math.min(wanted, cue.start + rules.maxDuration, latest), fps);
+
+    return { ...cue, start, end: Math.max(end, start + minLength) };
+  });
+}
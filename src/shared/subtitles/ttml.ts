@@ -0,0 +1,48 @@
+import { formatClockTime } from "./clock";
+import { SubtitleCue } from "./types";
+
+export interface TtmlOptions {
+  // BCP 47 language of the cue text
+  language?: string;
+}
+
+const IMSC1_TEXT_PROFILE = "http://www.w3.org/ns/ttml/profile/imsc1/text";
+
+export function escapeXmlText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function buildParagraph(cue: SubtitleCue): string {
+  const lines = cue.text.split(/\r?\n/).map((line) => escapeXmlText(line.trim())).filter(Boolean);
+  return `      <p begin="${formatClockTime(cue.start, ".")}" end="${formatClockTime(cue.end, ".")}">${lines.join("<br/>")}</p>`;
+}
+
+/**
+ * TTML document within the IMSC1 text profile, which DFXP readers also
+ * accept: one styled region at the bottom of the frame, media-time clock.
+ */
+export function serializeTtml(cues: SubtitleCue[], { language = "und" }: TtmlOptions = {}): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" xmlns:tts="http://www.w3.org/ns/ttml#styling" ttp:profile="${IMSC1_TEXT_PROFILE}" ttp:timeBase="media" xml:lang="${escapeXmlText(language)}">`,
+    "  <head>",
+    "    <styling>",
+    '      <style xml:id="caption" tts:fontFamily="proportionalSansSerif" tts:fontSize="100%" tts:color="white" tts:backgroundColor="rgba(0,0,0,0.5)" tts:textAlign="center"/>',
+    "    </styling>",
+    "    <layout>",
+    '      <region xml:id="bottom" tts:origin="10% 75%" tts:extent="80% 20%" tts:displayAlign="after"/>',
+    "    </layout>",
+    "  </head>",
+    '  <body region="bottom" style="caption">',
+    "    <div>",
+    ...cues.map(buildParagraph),
+    "    </div>",
+    "  </body>",
+    "</tt>",
+    "",
+  ].join("\n");
+}
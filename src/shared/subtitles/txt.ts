@@ -0,0 +1,10 @@
+import { SubtitleCue } from "./types";
+
+// Plain transcript: one cue per line, with the on-screen line breaks removed
+export function serializeTxt(cues: SubtitleCue[]): string {
+  const lines = cues
+    .map((cue) => cue.text.replace(/\s*\r?\n\s*/g, " ").trim())
+    .filter(Boolean);
+
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
@@ -0,0 +1,20 @@
+export interface TimedWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  // Lines are separated by "\n"
+  text: string;
+  // Spoken timing of each word in text; only set while text is the transcript itself
+  words?: TimedWord[];
+}
+
+export interface TimedSegment {
+  start: number;
+  end: number;
+  text: string;
+}
@@ -0,0 +1,26 @@
+import { formatClockTime } from "./clock";
+import { SubtitleCue } from "./types";
+
+export function formatVttTime(seconds: number): string {
+  return formatClockTime(seconds, ".");
+}
+
+// Cue text is parsed for markup and may not contain "-->" or blank lines
+export function escapeVttText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function serializeVtt(cues: SubtitleCue[]): string {
+  const blocks = cues.map((cue) =>
+    `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${escapeVttText(cue.text)}\n`
+  );
+
+  return ["WEBVTT\n", ...blocks].join("\n");
+}
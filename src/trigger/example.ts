@@ -1,12 +1,55 @@
 import { task } from "@trigger.dev/sdk/v3";
 
-import { executeWorkflow, RenderWorkflowInput, WorkflowResult } from "./index";
+import {
+  cleanupWorkflowFiles,
+  deleteCancelledOutputs,
+  executeLanguageWorkflow,
+  executeWorkflow,
+  getLanguageWorkspaceId,
+  isRetryableError,
+  LanguageOutput,
+  LanguageWorkflowInput,
+  reportWorkflowFailure,
+  RenderWorkflowInput,
+  WorkflowResult,
+} from "./index";
 
 export const RenderWorkflow = task({
   id: "render-workflow",
   maxDuration: 3600,
-  run: async (payload: RenderWorkflowInput) => {
-    return await executeWorkflow(payload);
+  run: async (payload: RenderWorkflowInput, { signal }) => {
+    return await executeWorkflow(payload, signal);
+  },
+  // Fatal errors (invalid input, wrong language) fail the run without retries
+  catchError: async ({ error }) => {
+    return isRetryableError(error) ? undefined : { skipRetrying: true };
+  },
+  onFailure: async ({ payload, error }) => {
+    await reportWorkflowFailure(payload.jobId, error);
+  },
+  // Wait for the run to stop so no in-flight step writes after the cleanup
+  onCancel: async ({ payload, runPromise }) => {
+    await runPromise.catch(() => undefined);
+    cleanupWorkflowFiles(payload.jobId);
+    await deleteCancelledOutputs(payload.jobId);
+  },
+});
+
+// One target language of a job, fanned out by RenderWorkflow's localize step
+export const RenderLanguageWorkflow = task({
+  id: "render-language",
+  maxDuration: 3600,
+  run: async (payload: LanguageWorkflowInput, { signal }): Promise<LanguageOutput> => {
+    return await executeLanguageWorkflow(payload, signal);
+  },
+  catchError: async ({ error }) => {
+    return isRetryableError(error) ? undefined : { skipRetrying: true };
+  },
+  // Subtasks can outlive the parent's cleanup, so each removes its own outputs
+  onCancel: async ({ payload, runPromise }) => {
+    await runPromise.catch(() => undefined);
+    cleanupWorkflowFiles(getLanguageWorkspaceId(payload.jobId, payload.targetLang));
+    await deleteCancelledOutputs(payload.jobId, payload.targetLang);
   },
 });
 
@@ -1,9 +1,19 @@
 // Main entry point for Trigger.dev workflows
 export * from "./workflow/types/types";
 export * from "./workflow/core/executor";
+export * from "./workflow/core/language-executor";
+export * from "./workflow/core/errors";
+export * from "./workflow/core/engine";
+export * from "./workflow/core/step";
 export * from "./workflow/steps/download";
 export * from "./workflow/steps/probe";
 export * from "./workflow/steps/transcribe";
 export * from "./workflow/steps/captions";
 export * from "./workflow/steps/render";
-export * from "./workflow/steps/upload";
\ No newline at end of file
+export * from "./workflow/steps/upload";
+export * from "./workflow/steps/subtitles";
+export * from "./workflow/steps/localize";
+export * from "./workflow/steps/mux";
+export * from "./workflow/providers/translation";
+export * from "./workflow/providers/stt";
+export * from "./workflow/media";
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { logger } from "@trigger.dev/sdk/v3";
+
+import { getR2Storage } from "@/shared/storage";
+
+import { WorkflowOutputName, WorkflowOutputs } from "../types/types";
+
+// Outputs of completed steps, enough to skip them when the workflow runs again
+export type WorkflowCheckpoints = Partial<WorkflowOutputs>;
+
+export function getCheckpointPrefix(jobId: string): string {
+  return `checkpoints/${jobId}/`;
+}
+
+// scope keeps per-language outputs (captions, render, upload) apart
+function getCheckpointKey(jobId: string, name: WorkflowOutputName, scope?: string): string {
+  return `${getCheckpointPrefix(jobId)}${scope ? `${scope}/` : ""}${name}.json`;
+}
+
+/**
+ * Load the named checkpoints saved for a job. Checkpoints live in R2 so they
+ * survive retries on another worker and manual resumes.
+ * An unreadable checkpoint only means the step runs again.
+ */
+export async function loadCheckpoints(
+  jobId: string,
+  names: WorkflowOutputName[],
+  scope?: string
+): Promise<WorkflowCheckpoints> {
+  const checkpoints: WorkflowCheckpoints = {};
+  const r2Storage = getR2Storage();
+
+  await Promise.all(
+    names.map(async (name) => {
+      try {
+        const value = await r2Storage.getJsonFromR2<WorkflowCheckpoints[typeof name]>(
+          getCheckpointKey(jobId, name, scope)
+        );
+        if (value) {
+          Object.assign(checkpoints, { [name]: value });
+        }
+      } catch (error) {
+        logger.warn("Failed to load checkpoint", { jobId, name, error });
+      }
+    })
+  );
+
+  return checkpoints;
+}
+
+export async function saveCheckpoint<K extends WorkflowOutputName>(
+  jobId: string,
+  name: K,
+  value: WorkflowOutputs[K],
+  scope?: string
+): Promise<void> {
+  try {
+    await getR2Storage().putJsonToR2(getCheckpointKey(jobId, name, scope), value);
+  } catch (error) {
+    logger.warn("Failed to save checkpoint", { jobId, name, error });
+  }
+}
+
+// scope clears one language's checkpoints only
+export async function clearCheckpoints(jobId: string, scope?: string): Promise<void> {
+  try {
+    await getR2Storage().deletePrefixFromR2(`${getCheckpointPrefix(jobId)}${scope ? `${scope}/` : ""}`);
+  } catch (error) {
+    logger.warn("Failed to clear checkpoints", { jobId, scope, error });
+  }
+}
@@ -0,0 +1,149 @@
+/* eslint-disable no-unused-vars */
+import { logger } from "@trigger.dev/sdk/v3";
+
+import { RenderWorkflowInput, WorkflowOutputName, WorkflowOutputs } from "../types/types";
+
+import { loadCheckpoints, saveCheckpoint } from "./checkpoints";
+import { toWorkflowError, WorkflowError } from "./errors";
+import { createProgressReporter, planProgress, ProgressRange } from "./progress";
+import { reportStepEvent, StepEventInput } from "./reporter";
+import { runWithRetries } from "./retry";
+import { StepContext, WorkflowStep } from "./step";
+import { JobWorkspace } from "./workspace";
+
+export interface WorkflowRunOptions<P extends RenderWorkflowInput = RenderWorkflowInput> {
+  payload: P;
+  workspace: JobWorkspace;
+  signal?: AbortSignal;
+  // Outputs the caller needs; only the steps that lead to them run
+  targets: WorkflowOutputName[];
+  // Outputs handed down by a parent run, treated like checkpoints
+  inputs?: Partial<WorkflowOutputs>;
+  // Set by per-language subtasks: scopes checkpoints and tags step events
+  targetLang?: string;
+  // Slice of overall job progress (0-100) the steps share
+  progressRange?: ProgressRange;
+}
+
+function emitStepEvent(
+  step: WorkflowStep,
+  options: WorkflowRunOptions,
+  input: Omit<StepEventInput, "step" | "targetLang">
+): Promise<void> {
+  return reportStepEvent(options.payload.jobId, {
+    ...input,
+    step: step.name,
+    targetLang: options.targetLang,
+  });
+}
+
+/**
+ * Walk the steps backwards from the targets: a step runs only when a target
+ * or a later step needs its output and that output wasn't checkpointed.
+ */
+function planSteps<S extends WorkflowStep<WorkflowOutputName, RenderWorkflowInput>>(
+  steps: S[],
+  targets: WorkflowOutputName[],
+  outputs: Partial<WorkflowOutputs>
+): S[] {
+  const needed = new Set(targets.filter((name) => !(name in outputs)));
+  const planned: S[] = [];
+
+  for (const step of [...steps].reverse()) {
+    if (!needed.has(step.output)) continue;
+    planned.unshift(step);
+    step.inputs.filter((name) => !(name in outputs)).forEach((name) => needed.add(name));
+  }
+  return planned;
+}
+
+function createStepContext<P extends RenderWorkflowInput>(
+  step: WorkflowStep<WorkflowOutputName, P>,
+  options: WorkflowRunOptions<P>,
+  outputs: Partial<WorkflowOutputs>,
+  signal: AbortSignal,
+  progress: { range: ProgressRange; report: (fraction: number) => void }
+): StepContext<P> {
+  return {
+    jobId: options.payload.jobId,
+    payload: options.payload,
+    workspace: options.workspace,
+    signal,
+    reportProgress: progress.report,
+    progressRange: progress.range,
+    input<K extends WorkflowOutputName>(name: K): WorkflowOutputs[K] {
+      const value = outputs[name];
+      if (value === undefined) {
+        throw new WorkflowError("WORKFLOW_FAILED", `Step ${step.name} is missing its ${name} input`);
+      }
+      return value as WorkflowOutputs[K];
+    },
+  };
+}
+
+async function runStep<K extends WorkflowOutputName, P extends RenderWorkflowInput>(
+  step: WorkflowStep<K, P>,
+  options: WorkflowRunOptions<P>,
+  outputs: Partial<WorkflowOutputs>,
+  range: ProgressRange
+): Promise<void> {
+  const { jobId } = options.payload;
+  const { targetLang } = options;
+  const startedAt = Date.now();
+  const progress = createProgressReporter(range, (value) =>
+    emitStepEvent(step, options, { phase: "progress", progress: value }));
+
+  logger.log(`Executing ${step.name}`, { jobId, targetLang });
+  await emitStepEvent(step, options, { phase: "start", progress: range[0] });
+
+  try {
+    const value = await runWithRetries(step, (signal) =>
+      step.run(createStepContext(step, options, outputs, signal, { range, report: progress.report })),
+    jobId, options.signal);
+    await progress.flush();
+    Object.assign(outputs, { [step.output]: value });
+    if (step.checkpoint) await saveCheckpoint(jobId, step.output, value, targetLang);
+
+    logger.log(`${step.name} completed`, { jobId, targetLang, durationMs: Date.now() - startedAt });
+    await emitStepEvent(step, options, { phase: "done", progress: range[1] });
+  } catch (error) {
+    const workflowError = toWorkflowError(error, step.errorCode);
+    logger.error(`${step.name} failed`, {
+      jobId,
+      targetLang,
+      durationMs: Date.now() - startedAt,
+      errorCode: workflowError.code,
+      error: workflowError.message,
+    });
+    await emitStepEvent(step, options, {
+      phase: "error",
+      errorCode: workflowError.code,
+      message: workflowError.message,
+    });
+    if (!step.optional) throw workflowError;
+  }
+}
+
+/**
+ * Run the enabled steps in list order and return every output produced or
+ * restored from a checkpoint. Each step gets uniform logging, timing, events,
+ * timeout, retries and checkpointing; a failed optional step is skipped.
+ */
+export async function runWorkflowSteps<P extends RenderWorkflowInput>(
+  steps: WorkflowStep<WorkflowOutputName, P>[],
+  options: WorkflowRunOptions<P>
+): Promise<Partial<WorkflowOutputs>> {
+  const enabled = steps.filter((step) => step.enabled?.(options.payload) ?? true);
+  const ranges = planProgress(enabled, options.progressRange);
+  const checkpoints = await loadCheckpoints(
+    options.payload.jobId,
+    enabled.filter((step) => step.checkpoint).map((step) => step.output),
+    options.targetLang
+  );
+  const outputs: Partial<WorkflowOutputs> = { ...options.inputs, ...checkpoints };
+
+  for (const step of planSteps(enabled, options.targets, outputs)) {
+    await runStep(step, options, outputs, ranges.get(step) ?? [0, 100]);
+  }
+  return outputs;
+}
@@ -0,0 +1,68 @@
+import { InvalidMediaError, MediaCommandError } from "../media";
+
+export const DEFAULT_WORKFLOW_ERROR_CODE = "WORKFLOW_FAILED";
+
+/**
+ * Base class for failures the workflow can name. `code` becomes the job's
+ * reason; `retryable` says whether another attempt could succeed (timeouts,
+ * flaky APIs) or never will (invalid input), in which case retries are skipped.
+ */
+export class WorkflowError extends Error {
+  readonly code: string;
+  readonly retryable: boolean;
+
+  constructor(code: string, message: string, retryable: boolean = false) {
+    super(message);
+    this.code = code;
+    this.retryable = retryable;
+    this.name = "WorkflowError";
+  }
+}
+
+/**
+ * Errors we can't name are assumed transient; media commands that ran and
+ * failed on their input, or were aborted, won't succeed on a retry.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof WorkflowError) return error.retryable;
+  if (error instanceof InvalidMediaError) return false;
+  if (error instanceof MediaCommandError) return error.failure !== "exit" && error.failure !== "aborted";
+  return true;
+}
+
+export function getErrorCode(error: unknown): string {
+  if (error instanceof WorkflowError || error instanceof InvalidMediaError) return error.code;
+  return DEFAULT_WORKFLOW_ERROR_CODE;
+}
+
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Trigger keeps only a failed subtask's error name and message, so code and retryability ride in the name
+const SUBTASK_ERROR_NAME = /^WorkflowError\[(\w+)(,retryable)?\]$/;
+
+// Classify an error a subtask is about to fail with, so the parent can restore it
+export function toSubtaskError(error: unknown, code: string): WorkflowError {
+  const workflowError = toWorkflowError(error, code);
+  workflowError.name = `WorkflowError[${workflowError.code}${workflowError.retryable ? ",retryable" : ""}]`;
+  return workflowError;
+}
+
+/**
+ * Rebuild a failed subtask's error from what Trigger returned, prefixing its
+ * message with `context`. Errors that weren't classified get `fallbackCode`.
+ */
+export function fromSubtaskError(error: unknown, fallbackCode: string, context: string): WorkflowError {
+  const fields = error && typeof error === "object" ? (error as { name?: unknown; message?: unknown }) : {};
+  const message = `${context}: ${fields.message !== undefined ? String(fields.message) : getErrorMessage(error)}`;
+  const match = SUBTASK_ERROR_NAME.exec(String(fields.name ?? ""));
+  return match ? new WorkflowError(match[1], message, !!match[2]) : new WorkflowError(fallbackCode, message);
+}
+
+// Keep classified errors as they are; give anything else the step's code
+export function toWorkflowError(error: unknown, code: string): WorkflowError {
+  if (error instanceof WorkflowError) return error;
+  if (error instanceof InvalidMediaError) return new WorkflowError(error.code, error.message);
+  return new WorkflowError(code, getErrorMessage(error), isRetryableError(error));
+}
@@ -1,97 +1,158 @@
 import { logger } from "@trigger.dev/sdk/v3";
-import { readFileSync } from "fs";
+
+import { JobOutput } from "@/shared/jobs";
+import { getR2Storage } from "@/shared/storage";
 
 import {
+  LanguageOutput,
   RenderWorkflowInput,
+  UploadResult,
   WorkflowResult,
   VideoMetadata,
 } from "../types/types";
-import { downloadVideoFromR2 } from "../steps/download";
-import { validateVideoMetadata } from "../steps/probe";
-import { transcribeVideo } from "../steps/transcribe";
-import { generateCaptions } from "../steps/captions";
-import { renderFinalVideo } from "../steps/render";
-import { uploadProcessedVideo } from "../steps/upload";
+import { downloadStep } from "../steps/download";
+import { probeStep } from "../steps/probe";
+import { transcribeStep } from "../steps/transcribe";
+import { localizeStep } from "../steps/localize";
+import { muxStep } from "../steps/mux";
+
+import { clearCheckpoints } from "./checkpoints";
+import { runWorkflowSteps } from "./engine";
+import { getErrorCode, getErrorMessage } from "./errors";
+import { reportStepEvent } from "./reporter";
+import { WorkflowStep } from "./step";
+import { JobWorkspace } from "./workspace";
+
+/**
+ * Steps of the render workflow in run order. Add, reorder or gate steps
+ * (via `enabled`) here; the engine works out which ones each run needs.
+ * Per-language steps live in LANGUAGE_WORKFLOW_STEPS.
+ */
+export const RENDER_WORKFLOW_STEPS: WorkflowStep[] = [
+  downloadStep,
+  probeStep,
+  transcribeStep,
+  localizeStep,
+  muxStep,
+];
 
+// Burned-in videos first, then the soft-subtitled video once per language it carries
+function collectOutputs(languages: LanguageOutput[], softSubtitles?: UploadResult): JobOutput[] {
+  const burned = languages.flatMap(({ targetLang, url }): JobOutput[] =>
+    url ? [{ targetLang, url, mode: "burn" }] : []);
+  const soft = softSubtitles
+    ? languages.map(({ targetLang }): JobOutput => ({ targetLang, url: softSubtitles.url, mode: "soft" }))
+    : [];
+  return [...burned, ...soft];
+}
+
+// Steps whose outputs were checkpointed by an earlier attempt are skipped
 async function executeWorkflowSteps(
-  payload: RenderWorkflowInput
+  payload: RenderWorkflowInput,
+  workspace: JobWorkspace,
+  signal?: AbortSignal
 ): Promise<{
   videoMetadata: VideoMetadata;
-  finalUrl: string;
+  outputs: JobOutput[];
 }> {
-  const downloadResult = await downloadVideoFromR2(
-    payload.jobId,
-    payload.r2Key
-  );
-
-  const videoMetadata = await validateVideoMetadata(
-    payload.jobId,
-    downloadResult.filePath
-  );
-
-  const transcriptionResult = await transcribeVideo(
-    payload.jobId,
-    downloadResult.filePath
-  );
-
-  const captions = await generateCaptions(
-    payload.jobId,
-    transcriptionResult,
-    payload.targetLang
-  );
-
-  const videoBuffer = readFileSync(downloadResult.filePath);
-  const renderedVideo = await renderFinalVideo(
-    payload.jobId,
-    videoBuffer,
-    captions,
-    videoMetadata
-  );
-
-  const finalUrl = await uploadProcessedVideo(
-    payload.jobId,
-    renderedVideo.outputPath
-  );
+  const outputs = await runWorkflowSteps(RENDER_WORKFLOW_STEPS, {
+    payload,
+    workspace,
+    signal,
+    targets: ["metadata", "languages", "softSubtitles"],
+  });
+  const jobOutputs = collectOutputs(outputs.languages ?? [], outputs.softSubtitles);
+
+  if (!outputs.metadata || jobOutputs.length === 0) {
+    throw new Error("Workflow finished without a rendered video");
+  }
 
   return {
-    videoMetadata,
-    finalUrl,
+    videoMetadata: outputs.metadata,
+    outputs: jobOutputs,
   };
 }
 
 function createWorkflowResult(
   payload: RenderWorkflowInput,
-  finalUrl: string,
+  outputs: JobOutput[],
   metadata: VideoMetadata
 ): WorkflowResult {
   return {
     success: true,
     jobId: payload.jobId,
-    finalUrl,
+    finalUrl: outputs[0].url,
+    outputs,
     metadata,
   };
 }
 
+// signal aborts in-flight media commands and API calls when the run is cancelled
 export async function executeWorkflow(
-  payload: RenderWorkflowInput
+  payload: RenderWorkflowInput,
+  signal?: AbortSignal
 ): Promise<WorkflowResult> {
   logger.log("Starting RenderWorkflow", { payload });
+  await reportStepEvent(payload.jobId, { step: "workflow", phase: "start" });
 
   try {
-    const results = await executeWorkflowSteps(payload);
+    const workspace = JobWorkspace.create(payload.jobId);
+    const results = await executeWorkflowSteps(payload, workspace, signal);
+    await reportStepEvent(payload.jobId, {
+      step: "workflow",
+      phase: "done",
+      outputUrl: results.outputs[0].url,
+      outputs: results.outputs,
+    });
 
     logger.log("RenderWorkflow completed successfully", {
       jobId: payload.jobId,
-      finalUrl: results.finalUrl,
+      outputs: results.outputs,
     });
+    await clearCheckpoints(payload.jobId);
 
     return createWorkflowResult(
       payload,
-      results.finalUrl,
+      results.outputs,
       results.videoMetadata
     );
   } catch (error) {
-    logger.error("RenderWorkflow failed", { error, payload });
+    logger.error("RenderWorkflow attempt failed", { error, payload });
     throw error;
+  } finally {
+    cleanupWorkflowFiles(payload.jobId);
   }
-}
\ No newline at end of file
+}
+
+// Called once retries are exhausted; earlier failed attempts leave the job running
+export async function reportWorkflowFailure(jobId: string, error: unknown): Promise<void> {
+  await reportStepEvent(jobId, {
+    step: "workflow",
+    phase: "error",
+    errorCode: getErrorCode(error),
+    message: getErrorMessage(error),
+  });
+}
+
+// Remove a workspace from the worker, e.g. after the run is cancelled mid-step
+export function cleanupWorkflowFiles(workspaceId: string): void {
+  try {
+    new JobWorkspace(workspaceId).cleanup();
+  } catch (error) {
+    logger.warn("Failed to cleanup job workspace", { workspaceId, error });
+  }
+}
+
+/**
+ * Delete what a cancelled run stored in R2: its outputs under processed/ and
+ * its checkpoints. scope limits this to one language subtask. Call it only
+ * once the run has stopped, or an in-flight upload can land afterwards.
+ */
+export async function deleteCancelledOutputs(jobId: string, scope?: string): Promise<void> {
+  try {
+    await getR2Storage().deletePrefixFromR2(`processed/${jobId}/${scope ? `${scope}/` : ""}`);
+  } catch (error) {
+    logger.warn("Failed to delete cancelled job outputs", { jobId, scope, error });
+  }
+  await clearCheckpoints(jobId, scope);
+}
@@ -0,0 +1,61 @@
+import { logger } from "@trigger.dev/sdk/v3";
+
+import { LanguageOutput, LanguageWorkflowInput } from "../types/types";
+import { downloadStep } from "../steps/download";
+import { captionsStep } from "../steps/captions";
+import { renderStep } from "../steps/render";
+import { uploadStep } from "../steps/upload";
+import { subtitlesStep } from "../steps/subtitles";
+
+import { runWorkflowSteps } from "./engine";
+import { cleanupWorkflowFiles } from "./executor";
+import { DEFAULT_WORKFLOW_ERROR_CODE, toSubtaskError } from "./errors";
+import { WorkflowStep } from "./step";
+import { JobWorkspace } from "./workspace";
+
+// Steps each language subtask runs, after the parent has probed and transcribed
+export const LANGUAGE_WORKFLOW_STEPS: WorkflowStep<
+  "download" | "captions" | "render" | "upload" | "subtitles",
+  LanguageWorkflowInput
+>[] = [downloadStep, captionsStep, renderStep, uploadStep, subtitlesStep];
+
+// Subtasks of one job may share a worker, so each gets its own workspace
+export function getLanguageWorkspaceId(jobId: string, targetLang: string): string {
+  return `${jobId}-${targetLang}`;
+}
+
+/**
+ * Caption one target language, store its subtitle files and, unless the job
+ * only wants soft subtitles, burn in and upload the captions. Checkpoints are
+ * scoped to the language, so a retried or resumed subtask skips what it
+ * already did.
+ */
+export async function executeLanguageWorkflow(
+  payload: LanguageWorkflowInput,
+  signal?: AbortSignal
+): Promise<LanguageOutput> {
+  const { jobId, targetLang } = payload;
+  const workspaceId = getLanguageWorkspaceId(jobId, targetLang);
+  logger.log("Starting language workflow", { jobId, targetLang });
+
+  try {
+    const outputs = await runWorkflowSteps(LANGUAGE_WORKFLOW_STEPS, {
+      payload,
+      workspace: JobWorkspace.create(workspaceId),
+      signal,
+      targets: ["captions", "upload", "subtitles"],
+      inputs: { metadata: payload.metadata, transcription: payload.transcription },
+      targetLang,
+      progressRange: payload.progressRange,
+    });
+
+    if (!outputs.captions || (payload.renderMode !== "soft" && !outputs.upload)) {
+      throw new Error(`Language workflow finished without a ${targetLang} video`);
+    }
+    return { targetLang, ...outputs.upload, captions: outputs.captions };
+  } catch (error) {
+    throw toSubtaskError(error, DEFAULT_WORKFLOW_ERROR_CODE);
+  } finally {
+    cleanupWorkflowFiles(workspaceId);
+  }
+}
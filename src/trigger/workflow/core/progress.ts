@@ -0,0 +1,39 @@
+/* eslint-disable no-unused-vars */
+export type ProgressRange = [number, number];
+
+// Split a progress range between the steps in proportion to their weights
+export function planProgress<S extends { progressWeight: number }>(
+  steps: S[],
+  [from, to]: ProgressRange = [0, 100]
+): Map<S, ProgressRange> {
+  const total = steps.reduce((sum, step) => sum + step.progressWeight, 0) || 1;
+  const ranges = new Map<S, ProgressRange>();
+  const toProgress = (weight: number) => Math.round(from + ((to - from) * weight) / total);
+  let completed = 0;
+
+  for (const step of steps) {
+    const start = toProgress(completed);
+    completed += step.progressWeight;
+    ranges.set(step, [start, toProgress(completed)]);
+  }
+  return ranges;
+}
+
+// Report a step's progress in 10% increments; flush() waits for the last report
+export function createProgressReporter(
+  [start, done]: ProgressRange,
+  report: (progress: number) => Promise<void>
+) {
+  let reported = 0;
+  let lastReport: Promise<void> = Promise.resolve();
+
+  return {
+    report(fraction: number) {
+      const increment = Math.floor(Math.min(fraction, 1) * 10) / 10;
+      if (increment <= reported) return;
+      reported = increment;
+      lastReport = report(Math.round(start + (done - start) * increment));
+    },
+    flush: () => lastReport,
+  };
+}
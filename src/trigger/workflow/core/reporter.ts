@@ -0,0 +1,85 @@
+import { logger } from "@trigger.dev/sdk/v3";
+
+import {
+  applyStepEvent,
+  getJobStore,
+  getStepProgress,
+  JOB_CALLBACK_SIGNATURE_HEADER,
+  signCallbackBody,
+  StepEvent,
+} from "@/shared/jobs";
+
+import { WorkflowError } from "./errors";
+
+export type StepEventInput = Omit<StepEvent, "progress" | "timestamp"> & {
+  progress?: number;
+};
+
+async function postCallback(
+  baseUrl: string,
+  secret: string,
+  jobId: string,
+  event: StepEvent
+): Promise<void> {
+  const body = JSON.stringify(event);
+  const response = await fetch(
+    `${baseUrl.replace(/\/$/, "")}/api/jobs/${encodeURIComponent(jobId)}/events`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [JOB_CALLBACK_SIGNATURE_HEADER]: signCallbackBody(body, secret),
+      },
+      body,
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Callback responded with ${response.status}`);
+  }
+}
+
+/**
+ * Where step events go. Deployed workers run apart from the app, so they must
+ * post signed callbacks; writing to the worker's own store is only for local
+ * development, where JOB_EVENTS_LOCAL=1 says the app shares it.
+ */
+function getReportTarget(): { url: string; secret: string } | "local" {
+  const url = process.env.JOB_CALLBACK_URL;
+  const secret = process.env.JOB_CALLBACK_SECRET;
+  if (url && secret) return { url, secret };
+  if (process.env.JOB_EVENTS_LOCAL === "1") return "local";
+
+  throw new WorkflowError(
+    "JOB_CALLBACK_NOT_CONFIGURED",
+    "JOB_CALLBACK_URL and JOB_CALLBACK_SECRET must be set so the app receives job progress (or JOB_EVENTS_LOCAL=1 in development)"
+  );
+}
+
+/**
+ * Publish a step lifecycle event to the job store, through the app's signed
+ * callback route or, in local development, directly. Missing callback
+ * configuration fails the run; a failed delivery is only logged.
+ */
+export async function reportStepEvent(
+  jobId: string,
+  input: StepEventInput
+): Promise<void> {
+  const event: StepEvent = {
+    ...input,
+    progress: input.progress ?? getStepProgress(input.step, input.phase),
+    timestamp: new Date().toISOString(),
+  };
+
+  const target = getReportTarget();
+
+  try {
+    if (target === "local") {
+      await applyStepEvent(getJobStore(), jobId, event);
+    } else {
+      await postCallback(target.url, target.secret, jobId, event);
+    }
+  } catch (error) {
+    logger.warn("Failed to report step event", { jobId, event, error });
+  }
+}
@@ -0,0 +1,66 @@
+/* eslint-disable no-unused-vars */
+import { logger } from "@trigger.dev/sdk/v3";
+
+import { WorkflowOutputName, WorkflowOutputs } from "../types/types";
+
+import { toWorkflowError, WorkflowError } from "./errors";
+import { WorkflowStep } from "./step";
+
+/**
+ * One attempt at a step. The step's signal aborts when the run is cancelled
+ * or the step times out; the timeout also settles steps that ignore it.
+ */
+async function runAttempt<K extends WorkflowOutputName>(
+  step: WorkflowStep<K>,
+  run: (signal: AbortSignal) => Promise<WorkflowOutputs[K]>,
+  parentSignal?: AbortSignal
+): Promise<WorkflowOutputs[K]> {
+  const controller = new AbortController();
+  const abort = () => controller.abort(parentSignal?.reason);
+  if (parentSignal?.aborted) abort();
+  parentSignal?.addEventListener("abort", abort, { once: true });
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    if (!step.timeoutMs) return;
+    timer = setTimeout(() => {
+      const error = new WorkflowError("STEP_TIMEOUT", `Step ${step.name} timed out after ${step.timeoutMs}ms`, true);
+      controller.abort(error);
+      reject(error);
+    }, step.timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    parentSignal?.removeEventListener("abort", abort);
+  }
+}
+
+// Retry retryable failures in place, waiting delayMs, 2 * delayMs, ... between attempts
+export async function runWithRetries<K extends WorkflowOutputName>(
+  step: WorkflowStep<K>,
+  run: (signal: AbortSignal) => Promise<WorkflowOutputs[K]>,
+  jobId: string,
+  signal?: AbortSignal
+): Promise<WorkflowOutputs[K]> {
+  const maxAttempts = step.retry?.maxAttempts ?? 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await runAttempt(step, run, signal);
+    } catch (error) {
+      const workflowError = toWorkflowError(error, step.errorCode);
+      if (attempt >= maxAttempts || !workflowError.retryable || signal?.aborted) {
+        throw workflowError;
+      }
+      logger.warn(`${step.name} attempt ${attempt} failed, retrying`, {
+        jobId,
+        errorCode: workflowError.code,
+        error: workflowError.message,
+      });
+      await new Promise((resolve) => setTimeout(resolve, (step.retry?.delayMs ?? 0) * attempt));
+    }
+  }
+}
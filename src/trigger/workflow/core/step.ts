@@ -0,0 +1,63 @@
+/* eslint-disable no-unused-vars */
+import type { WorkflowStepName } from "@/shared/jobs";
+
+import {
+  RenderWorkflowInput,
+  WorkflowOutputName,
+  WorkflowOutputs,
+} from "../types/types";
+
+import { JobWorkspace } from "./workspace";
+
+export interface StepRetryPolicy {
+  maxAttempts: number;
+  // Delay before the second attempt; later attempts wait proportionally longer
+  delayMs: number;
+}
+
+// P is the run's payload; per-language steps see a LanguageWorkflowInput
+export interface StepContext<P extends RenderWorkflowInput = RenderWorkflowInput> {
+  jobId: string;
+  payload: P;
+  workspace: JobWorkspace;
+  // Aborted when the run is cancelled or the step times out
+  signal: AbortSignal;
+  input<K extends WorkflowOutputName>(name: K): WorkflowOutputs[K];
+  // Fraction (0-1) of the step completed, for long-running steps
+  reportProgress(fraction: number): void;
+  // Overall job progress (0-100) the step spans
+  progressRange: [number, number];
+}
+
+/**
+ * A unit of the render workflow. The engine runs steps in list order, feeds
+ * them the outputs named in `inputs`, and handles logging, timing, events,
+ * timeouts, retries and checkpoints, so a step only implements `run`.
+ */
+export interface WorkflowStep<
+  K extends WorkflowOutputName = WorkflowOutputName,
+  P extends RenderWorkflowInput = RenderWorkflowInput,
+> {
+  name: WorkflowStepName;
+  output: K;
+  inputs: WorkflowOutputName[];
+  // Job reason for failures that don't carry their own code
+  errorCode: string;
+  // Share of overall job progress, relative to the other steps
+  progressWeight: number;
+  timeoutMs?: number;
+  retry?: StepRetryPolicy;
+  // Save the output so later attempts and resumes can skip the step
+  checkpoint?: boolean;
+  // A failed optional step is logged and the workflow carries on without its output
+  optional?: boolean;
+  enabled?(payload: P): boolean;
+  run(context: StepContext<P>): Promise<WorkflowOutputs[K]>;
+}
+
+export function defineStep<
+  K extends WorkflowOutputName,
+  P extends RenderWorkflowInput = RenderWorkflowInput,
+>(step: WorkflowStep<K, P>): WorkflowStep<K, P> {
+  return step;
+}
@@ -0,0 +1,103 @@
+import { mkdirSync, readdirSync, rmSync, statSync } from "fs";
+import { basename, join } from "path";
+
+import { WorkflowError } from "./errors";
+
+const DEFAULT_WORKSPACE_ROOT = join("/tmp", "jobs");
+const DEFAULT_QUOTA_BYTES = 1024 * 1024 * 1024;
+
+export class WorkspaceQuotaError extends WorkflowError {
+  constructor(
+    public readonly jobId: string,
+    public readonly requiredBytes: number,
+    public readonly quotaBytes: number
+  ) {
+    super(
+      "WORKSPACE_QUOTA_EXCEEDED",
+      `Workspace for job ${jobId} needs ${requiredBytes} bytes but its quota is ${quotaBytes} bytes`
+    );
+    this.name = "WorkspaceQuotaError";
+  }
+}
+
+function getWorkspaceRoot(): string {
+  return process.env.JOB_WORKSPACE_ROOT || DEFAULT_WORKSPACE_ROOT;
+}
+
+function getQuotaBytes(): number {
+  const configured = parseInt(process.env.JOB_WORKSPACE_QUOTA_BYTES || "", 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_QUOTA_BYTES;
+}
+
+function getDirectorySize(directory: string): number {
+  return readdirSync(directory, { withFileTypes: true }).reduce((total, entry) => {
+    const entryPath = join(directory, entry.name);
+    return total + (entry.isDirectory() ? getDirectorySize(entryPath) : statSync(entryPath).size);
+  }, 0);
+}
+
+/**
+ * Private scratch directory for one job (JOB_WORKSPACE_ROOT/<jobId>, default
+ * /tmp/jobs/<jobId>) so concurrent jobs on a worker never share files.
+ * Disk use is capped by JOB_WORKSPACE_QUOTA_BYTES (default 1 GiB).
+ */
+export class JobWorkspace {
+  readonly directory: string;
+  readonly quotaBytes: number;
+
+  constructor(public readonly jobId: string) {
+    // jobId becomes a directory name, so it must not escape the workspace root
+    if (basename(jobId) !== jobId || jobId.startsWith(".")) {
+      throw new Error(`Invalid job id for workspace: ${jobId}`);
+    }
+    this.directory = join(getWorkspaceRoot(), jobId);
+    this.quotaBytes = getQuotaBytes();
+  }
+
+  static create(jobId: string): JobWorkspace {
+    const workspace = new JobWorkspace(jobId);
+    mkdirSync(workspace.directory, { recursive: true });
+    return workspace;
+  }
+
+  path(fileName: string): string {
+    return join(this.directory, fileName);
+  }
+
+  usedBytes(): number {
+    try {
+      return getDirectorySize(this.directory);
+    } catch {
+      return 0;
+    }
+  }
+
+  remainingBytes(): number {
+    return Math.max(0, this.quotaBytes - this.usedBytes());
+  }
+
+  // Throw before writing a file of the given size would exceed the quota
+  reserve(bytes: number): void {
+    const required = this.usedBytes() + bytes;
+    if (required > this.quotaBytes) {
+      throw new WorkspaceQuotaError(this.jobId, required, this.quotaBytes);
+    }
+  }
+
+  // ffmpeg output option that stops writing once the quota is used up
+  ffmpegSizeLimitArgs(): string[] {
+    return ["-fs", String(this.remainingBytes())];
+  }
+
+  // After an ffmpeg write: a full workspace means the output was cut short
+  assertWithinQuota(): void {
+    const used = this.usedBytes();
+    if (used >= this.quotaBytes) {
+      throw new WorkspaceQuotaError(this.jobId, used, this.quotaBytes);
+    }
+  }
+
+  cleanup(): void {
+    rmSync(this.directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,105 @@
+/* eslint-disable no-unused-vars */
+import { ChildProcess, spawn } from "child_process";
+import { basename } from "path";
+
+import { MediaCommandError, MediaCommandFailure } from "./errors";
+
+export interface MediaCommandOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Cap on buffered stdout; ignored when stdout is streamed to onStdout
+  maxOutputBytes?: number;
+  onStdout?: (chunk: string) => void;
+}
+
+export interface MediaCommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+const STDERR_TAIL_BYTES = 64 * 1024;
+
+interface CommandOutput {
+  stdout: string;
+  stdoutBytes: number;
+  stderr: string;
+}
+
+function collectOutput(
+  child: ChildProcess,
+  options: MediaCommandOptions,
+  stop: (failure: MediaCommandFailure) => void
+): CommandOutput {
+  const output: CommandOutput = { stdout: "", stdoutBytes: 0, stderr: "" };
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+
+  child.stdout?.setEncoding("utf8");
+  child.stdout?.on("data", (chunk: string) => {
+    if (options.onStdout) {
+      options.onStdout(chunk);
+      return;
+    }
+    output.stdout += chunk;
+    output.stdoutBytes += Buffer.byteLength(chunk);
+    if (output.stdoutBytes > maxOutputBytes) {
+      stop("output-limit");
+    }
+  });
+
+  // Only the tail of stderr is kept so chatty commands can't exhaust memory
+  child.stderr?.setEncoding("utf8");
+  child.stderr?.on("data", (chunk: string) => {
+    output.stderr = (output.stderr + chunk).slice(-STDERR_TAIL_BYTES);
+  });
+
+  return output;
+}
+
+/**
+ * Run a media binary with an argument array (never through a shell), killing
+ * it on timeout, abort or runaway output. Failures reject with MediaCommandError
+ * carrying the tail of stderr.
+ */
+export function runMediaCommand(
+  binary: string,
+  args: string[],
+  options: MediaCommandOptions = {}
+): Promise<MediaCommandResult> {
+  const command = basename(binary);
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new MediaCommandError("aborted", command));
+      return;
+    }
+
+    const child = spawn(binary, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let failure: MediaCommandFailure | null = null;
+    const stop = (reason: MediaCommandFailure) => {
+      if (failure) return;
+      failure = reason;
+      child.kill("SIGKILL");
+    };
+
+    const output = collectOutput(child, options, stop);
+    const timer = setTimeout(() => stop("timeout"), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const onAbort = () => stop("aborted");
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    const settle = (error: MediaCommandError | null) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      if (error) reject(error);
+      else resolve({ stdout: output.stdout, stderr: output.stderr });
+    };
+
+    child.on("error", () => settle(new MediaCommandError("spawn", command, output.stderr)));
+    child.on("close", (exitCode) => {
+      if (failure) settle(new MediaCommandError(failure, command, output.stderr));
+      else if (exitCode !== 0) settle(new MediaCommandError("exit", command, output.stderr, exitCode));
+      else settle(null);
+    });
+  });
+}
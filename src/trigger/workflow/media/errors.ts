@@ -0,0 +1,39 @@
+export type MediaCommandFailure = "exit" | "timeout" | "aborted" | "output-limit" | "spawn";
+
+const FAILURE_MESSAGES: Record<MediaCommandFailure, string> = {
+  exit: "exited with an error",
+  timeout: "timed out",
+  aborted: "was aborted",
+  "output-limit": "exceeded its output limit",
+  spawn: "could not be started",
+};
+
+// Last non-empty stderr line; ffmpeg and ffprobe print the actual error last
+function lastLine(stderr: string): string {
+  const lines = stderr.trim().split("\n");
+  return lines[lines.length - 1]?.trim() ?? "";
+}
+
+export class MediaCommandError extends Error {
+  constructor(
+    public readonly failure: MediaCommandFailure,
+    public readonly command: string,
+    public readonly stderr: string = "",
+    public readonly exitCode: number | null = null
+  ) {
+    const exit = exitCode !== null ? ` (exit code ${exitCode})` : "";
+    const detail = lastLine(stderr);
+    super(`${command} ${FAILURE_MESSAGES[failure]}${exit}${detail ? `: ${detail}` : ""}`);
+    this.name = "MediaCommandError";
+  }
+}
+
+// The command ran, but what it reported about the file can't be used; a retry sees the same file
+export class InvalidMediaError extends Error {
+  readonly code = "INVALID_MEDIA";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidMediaError";
+  }
+}
@@ -0,0 +1,59 @@
+/* eslint-disable no-unused-vars */
+import { runMediaCommand } from "./command";
+
+export interface FfmpegOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Input duration, needed to turn progress timestamps into a fraction
+  durationSeconds?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+const DEFAULT_FFMPEG_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || "ffmpeg";
+}
+
+/**
+ * Build a stdout handler for `-progress pipe:1` output. ffmpeg writes
+ * key=value lines; out_time_us is the position reached in the output.
+ */
+export function createProgressParser(
+  durationSeconds: number,
+  onProgress: (fraction: number) => void
+): (chunk: string) => void {
+  let pending = "";
+
+  return (chunk: string) => {
+    const lines = (pending + chunk).split("\n");
+    pending = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const [key, value] = line.trim().split("=");
+      if (key === "out_time_us" && durationSeconds > 0) {
+        const seconds = parseInt(value, 10) / 1_000_000;
+        if (Number.isFinite(seconds)) onProgress(Math.min(1, Math.max(0, seconds / durationSeconds)));
+      } else if (key === "progress" && value === "end") {
+        onProgress(1);
+      }
+    }
+  };
+}
+
+export async function runFfmpeg(
+  args: string[],
+  options: FfmpegOptions = {}
+): Promise<void> {
+  const { durationSeconds, onProgress, ...commandOptions } = options;
+  const onStdout = onProgress && durationSeconds
+    ? createProgressParser(durationSeconds, onProgress)
+    : undefined;
+  const progressArgs = onStdout ? ["-progress", "pipe:1", "-nostats"] : [];
+
+  await runMediaCommand(getFfmpegPath(), ["-hide_banner", ...progressArgs, ...args], {
+    timeoutMs: DEFAULT_FFMPEG_TIMEOUT_MS,
+    ...commandOptions,
+    onStdout,
+  });
+}
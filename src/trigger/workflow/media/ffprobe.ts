@@ -0,0 +1,76 @@
+import { runMediaCommand } from "./command";
+import { InvalidMediaError } from "./errors";
+
+export interface ProbeStream {
+  codec_type: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  r_frame_rate?: string;
+}
+
+export interface ProbeData {
+  streams: ProbeStream[];
+  format: {
+    duration?: string;
+    size?: string;
+    format_name?: string;
+  };
+}
+
+export interface ProbeOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+const PROBE_TIMEOUT_MS = 30 * 1000;
+
+export function getFfprobePath(): string {
+  return process.env.FFPROBE_PATH || "ffprobe";
+}
+
+export async function probeMedia(
+  filePath: string,
+  options: ProbeOptions = {}
+): Promise<ProbeData> {
+  const { stdout } = await runMediaCommand(
+    getFfprobePath(),
+    ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", filePath],
+    { timeoutMs: PROBE_TIMEOUT_MS, ...options }
+  );
+
+  try {
+    return JSON.parse(stdout) as ProbeData;
+  } catch {
+    throw new InvalidMediaError(`ffprobe returned invalid JSON for ${filePath}`);
+  }
+}
+
+// Progress and timeouts are scaled by the duration, so a missing or zero value is an error
+export function parseDuration(value: string | undefined, filePath: string): number {
+  const duration = parseFloat(value ?? "");
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new InvalidMediaError(`ffprobe reported no usable duration for ${filePath}`);
+  }
+  return duration;
+}
+
+export async function probeDuration(
+  filePath: string,
+  options: ProbeOptions = {}
+): Promise<number> {
+  const { stdout } = await runMediaCommand(
+    getFfprobePath(),
+    ["-v", "error", "-show_entries", "format=duration", "-of", "default=noprint_wrappers=1:nokey=1", filePath],
+    { timeoutMs: PROBE_TIMEOUT_MS, ...options }
+  );
+  return parseDuration(stdout.trim(), filePath);
+}
+
+// ffprobe reports frame rates as fractions such as "30000/1001"
+export function parseFrameRate(rate: string | undefined): number | undefined {
+  if (!rate) return undefined;
+  const [numerator, denominator] = rate.split("/").map(Number);
+  if (!denominator) return undefined;
+  return numerator / denominator;
+}
@@ -0,0 +1,4 @@
+export * from "./errors";
+export * from "./command";
+export * from "./ffprobe";
+export * from "./ffmpeg";
@@ -0,0 +1,34 @@
+import { readFileSync } from "fs";
+
+import type { SttProvider, SttTranscription } from "./stt";
+
+const DEFAULT_FIXTURE: SttTranscription = {
+  language: "en",
+  duration: 4,
+  segments: [
+    { start: 0, end: 1.8, text: "Hello and welcome." },
+    { start: 2, end: 4, text: "This is a test video." },
+  ],
+  words: [
+    { word: "Hello", start: 0, end: 0.5 },
+    { word: "and", start: 0.6, end: 0.8 },
+    { word: "welcome.", start: 0.9, end: 1.8 },
+    { word: "This", start: 2, end: 2.3 },
+    { word: "is", start: 2.4, end: 2.5 },
+    { word: "a", start: 2.6, end: 2.7 },
+    { word: "test", start: 2.8, end: 3.2 },
+    { word: "video.", start: 3.3, end: 4 },
+  ],
+};
+
+// STT_FIXTURE_PATH points at a JSON SttTranscription; otherwise a short English clip
+export function createFakeSttProvider(): SttProvider {
+  return {
+    name: "fake",
+    async transcribe(): Promise<SttTranscription> {
+      const fixturePath = process.env.STT_FIXTURE_PATH;
+      if (!fixturePath) return DEFAULT_FIXTURE;
+      return JSON.parse(readFileSync(fixturePath, "utf8")) as SttTranscription;
+    },
+  };
+}
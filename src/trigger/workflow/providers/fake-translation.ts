@@ -0,0 +1,10 @@
+import type { TranslationProvider, TranslationRequest } from "./translation";
+
+export function createFakeTranslationProvider(): TranslationProvider {
+  return {
+    name: "fake",
+    async translate({ texts, targetLang }: TranslationRequest): Promise<string[]> {
+      return texts.map((text) => `[${targetLang}] ${text}`);
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import { readFileSync, rmSync } from "fs";
+import { dirname, join, parse } from "path";
+
+import { runMediaCommand } from "../media";
+
+import type { SttProvider, SttRequest, SttTranscription } from "./stt";
+
+const LOCAL_WHISPER_TIMEOUT_MS = 15 * 60 * 1000;
+
+type LocalWhisperEngine = "whisper-cpp" | "faster-whisper";
+
+// whisper.cpp `-oj` output; offsets are in milliseconds
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+  }>;
+}
+
+// openai-whisper style JSON, as written by whisper-ctranslate2 (faster-whisper)
+interface FasterWhisperOutput {
+  language?: string;
+  segments?: Array<{
+    start: number;
+    end: number;
+    text: string;
+    words?: Array<{ word: string; start: number; end: number; probability?: number }>;
+  }>;
+}
+
+function getEngine(): LocalWhisperEngine {
+  const engine = process.env.LOCAL_WHISPER_ENGINE || "whisper-cpp";
+  if (engine !== "whisper-cpp" && engine !== "faster-whisper") {
+    throw new Error(`Unknown local whisper engine: ${engine}`);
+  }
+  return engine;
+}
+
+function buildWhisperCppArgs(audioPath: string, outputBase: string, language?: string): string[] {
+  const model = process.env.LOCAL_WHISPER_MODEL;
+  if (!model) throw new Error("LOCAL_WHISPER_MODEL environment variable is required for whisper.cpp");
+  return ["-m", model, "-f", audioPath, "-l", language || "auto", "-oj", "-of", outputBase];
+}
+
+function buildFasterWhisperArgs(audioPath: string, language?: string): string[] {
+  const languageArgs = language ? ["--language", language] : [];
+  return [
+    ...languageArgs,
+    audioPath,
+    "--model", process.env.LOCAL_WHISPER_MODEL || "small",
+    "--output_format", "json",
+    "--output_dir", dirname(audioPath),
+    "--word_timestamps", "True",
+  ];
+}
+
+// whisper.cpp only reports segments, so there are no word timestamps
+function fromWhisperCpp(output: WhisperCppOutput): SttTranscription {
+  const segments = (output.transcription ?? []).map((segment) => ({
+    start: segment.offsets.from / 1000,
+    end: segment.offsets.to / 1000,
+    text: segment.text,
+  }));
+
+  return {
+    language: output.result?.language ?? "",
+    duration: segments.at(-1)?.end ?? 0,
+    segments,
+    words: [],
+  };
+}
+
+function fromFasterWhisper(output: FasterWhisperOutput): SttTranscription {
+  const segments = output.segments ?? [];
+
+  return {
+    language: output.language ?? "",
+    duration: segments.at(-1)?.end ?? 0,
+    segments: segments.map(({ start, end, text }) => ({ start, end, text })),
+    words: segments.flatMap((segment) =>
+      (segment.words ?? []).map((word) => ({
+        word: word.word,
+        start: word.start,
+        end: word.end,
+        confidence: word.probability,
+      }))
+    ),
+  };
+}
+
+/**
+ * Transcribe on the worker with a whisper CLI, for offline or self-hosted runs.
+ * LOCAL_WHISPER_ENGINE picks "whisper-cpp" (default) or "faster-whisper"
+ * (whisper-ctranslate2); LOCAL_WHISPER_BIN and LOCAL_WHISPER_MODEL point at
+ * the binary and model. Both write a JSON transcript next to the audio file.
+ */
+export function createLocalWhisperSttProvider(): SttProvider {
+  return {
+    name: "local-whisper",
+    async transcribe({ audioPath, language, signal }: SttRequest): Promise<SttTranscription> {
+      const engine = getEngine();
+      const { dir, name } = parse(audioPath);
+      const outputBase = join(dir, name);
+      const outputPath = `${outputBase}.json`;
+
+      const binary = process.env.LOCAL_WHISPER_BIN
+        || (engine === "whisper-cpp" ? "whisper-cli" : "whisper-ctranslate2");
+      const args = engine === "whisper-cpp"
+        ? buildWhisperCppArgs(audioPath, outputBase, language)
+        : buildFasterWhisperArgs(audioPath, language);
+
+      try {
+        await runMediaCommand(binary, args, { timeoutMs: LOCAL_WHISPER_TIMEOUT_MS, signal });
+        const output: unknown = JSON.parse(readFileSync(outputPath, "utf8"));
+        return engine === "whisper-cpp"
+          ? fromWhisperCpp(output as WhisperCppOutput)
+          : fromFasterWhisper(output as FasterWhisperOutput);
+      } finally {
+        rmSync(outputPath, { force: true });
+      }
+    },
+  };
+}
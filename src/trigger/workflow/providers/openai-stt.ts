@@ -0,0 +1,57 @@
+import { createReadStream } from "fs";
+
+import { createOpenAIClient } from "./openai";
+import type { SttProvider, SttRequest, SttTranscription } from "./stt";
+
+const DEFAULT_MODEL = "whisper-1";
+
+interface WhisperTranscription {
+  language: string;
+  duration: number;
+  segments?: Array<{
+    start: number;
+    end: number;
+    text: string;
+  }>;
+  words?: Array<{
+    word: string;
+    start: number;
+    end: number;
+    probability?: number;
+  }>;
+}
+
+function toSttTranscription(transcription: WhisperTranscription): SttTranscription {
+  const segments = transcription.segments?.map(segment => ({
+    start: segment.start,
+    end: segment.end,
+    text: segment.text,
+  })) || [];
+
+  const words = transcription.words?.map(word => ({
+    word: word.word,
+    start: word.start,
+    end: word.end,
+    confidence: word.probability,
+  })) || [];
+
+  return { language: transcription.language, duration: transcription.duration, segments, words };
+}
+
+export function createOpenAISttProvider(): SttProvider {
+  return {
+    name: "openai",
+    async transcribe({ audioPath, language, signal }: SttRequest): Promise<SttTranscription> {
+      const openai = createOpenAIClient();
+      const transcription: WhisperTranscription = await openai.audio.transcriptions.create({
+        file: createReadStream(audioPath),
+        model: process.env.OPENAI_STT_MODEL || DEFAULT_MODEL,
+        language,
+        response_format: "verbose_json",
+        timestamp_granularities: ["word", "segment"],
+      }, { signal });
+
+      return toSttTranscription(transcription);
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { logger } from "@trigger.dev/sdk/v3";
+
+import { getLanguageName } from "@/shared/languages";
+
+import { createOpenAIClient } from "./openai";
+import {
+  TranslationError,
+  type TranslationProvider,
+  type TranslationRequest,
+} from "./translation";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const BATCH_SIZE = 40;
+
+function buildSystemPrompt(sourceLang: string, targetLang: string): string {
+  return [
+    `You are a professional subtitle translator. Translate each subtitle line from ${getLanguageName(sourceLang)} to ${getLanguageName(targetLang)}.`,
+    "Keep the translations short enough to read on screen and preserve the speaker's tone.",
+    "Return exactly one translation per input line, in the same order.",
+    'Respond with JSON of the form {"translations": ["..."]} and nothing else.',
+  ].join(" ");
+}
+
+function parseTranslations(content: string | null, expected: number): string[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content || "");
+  } catch {
+    throw new TranslationError("INVALID_RESPONSE", "Translation response is not valid JSON");
+  }
+
+  const translations = (parsed as { translations?: unknown }).translations;
+  if (!Array.isArray(translations) || translations.some((item) => typeof item !== "string")) {
+    throw new TranslationError("INVALID_RESPONSE", "Translation response is missing a translations array");
+  }
+  if (translations.length !== expected) {
+    throw new TranslationError(
+      "INVALID_RESPONSE",
+      `Expected ${expected} translations, got ${translations.length}`
+    );
+  }
+
+  return translations as string[];
+}
+
+async function translateBatch(
+  texts: string[],
+  sourceLang: string,
+  targetLang: string
+): Promise<string[]> {
+  const openai = createOpenAIClient();
+
+  try {
+    const completion = await openai.chat.completions.create({
+      model: process.env.OPENAI_TRANSLATION_MODEL || DEFAULT_MODEL,
+      temperature: 0.2,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: buildSystemPrompt(sourceLang, targetLang) },
+        { role: "user", content: JSON.stringify({ lines: texts }) },
+      ],
+    });
+
+    return parseTranslations(completion.choices[0]?.message.content ?? null, texts.length);
+  } catch (error) {
+    if (error instanceof TranslationError) throw error;
+    throw new TranslationError("TRANSLATION_FAILED", `OpenAI translation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export function createOpenAITranslationProvider(): TranslationProvider {
+  return {
+    name: "openai",
+    async translate({ texts, sourceLang, targetLang }: TranslationRequest): Promise<string[]> {
+      const translations: string[] = [];
+
+      for (let offset = 0; offset < texts.length; offset += BATCH_SIZE) {
+        const batch = texts.slice(offset, offset + BATCH_SIZE);
+        logger.log("Translating caption batch", { offset, size: batch.length, targetLang });
+        translations.push(...(await translateBatch(batch, sourceLang, targetLang)));
+      }
+
+      return translations;
+    },
+  };
+}
@@ -0,0 +1,6 @@
+import { OpenAI } from "openai";
+
+export function createOpenAIClient(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY environment variable is required");
+  return new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+}
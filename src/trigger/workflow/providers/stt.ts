@@ -0,0 +1,53 @@
+/* eslint-disable no-unused-vars */
+import { createOpenAISttProvider } from "./openai-stt";
+import { createLocalWhisperSttProvider } from "./local-whisper-stt";
+import { createFakeSttProvider } from "./fake-stt";
+
+export interface SttRequest {
+  // 16 kHz mono WAV extracted from the job's video
+  audioPath: string;
+  // ISO 639-1 hint for the spoken language; providers detect it when omitted
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface SttTranscription {
+  language: string;
+  duration: number;
+  segments: Array<{
+    start: number;
+    end: number;
+    text: string;
+  }>;
+  words: Array<{
+    word: string;
+    start: number;
+    end: number;
+    confidence?: number;
+  }>;
+}
+
+export interface SttProvider {
+  readonly name: string;
+  transcribe(request: SttRequest): Promise<SttTranscription>;
+}
+
+/**
+ * Select the speech-to-text provider for a job, falling back to STT_PROVIDER.
+ * "local-whisper" runs a whisper.cpp or faster-whisper CLI on the worker;
+ * "fake" returns a fixture transcript for tests and local runs.
+ */
+export function getSttProvider(
+  providerName: string = process.env.STT_PROVIDER || "openai"
+): SttProvider {
+  switch (providerName) {
+    case "openai":
+      return createOpenAISttProvider();
+    case "local-whisper":
+      return createLocalWhisperSttProvider();
+    case "fake":
+      return createFakeSttProvider();
+    default:
+      throw new Error(`Unknown STT provider: ${providerName}`);
+  }
+}
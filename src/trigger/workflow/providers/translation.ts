@@ -0,0 +1,42 @@
+/* eslint-disable no-unused-vars */
+import { TranslationErrorCodes } from "../types/types";
+import { WorkflowError } from "../core/errors";
+
+import { createOpenAITranslationProvider } from "./openai-translation";
+import { createFakeTranslationProvider } from "./fake-translation";
+
+export interface TranslationRequest {
+  texts: string[];
+  sourceLang: string;
+  targetLang: string;
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  translate(request: TranslationRequest): Promise<string[]>;
+}
+
+// API hiccups are transient and retried; a malformed model response would just repeat
+export class TranslationError extends WorkflowError {
+  constructor(code: keyof TranslationErrorCodes, message: string) {
+    super(code, message, code !== "INVALID_RESPONSE");
+    this.name = "TranslationError";
+  }
+}
+
+/**
+ * Select the translation provider for the current environment.
+ * TRANSLATION_PROVIDER=fake gives deterministic output for tests and local runs.
+ */
+export function getTranslationProvider(
+  providerName: string = process.env.TRANSLATION_PROVIDER || "openai"
+): TranslationProvider {
+  switch (providerName) {
+    case "openai":
+      return createOpenAITranslationProvider();
+    case "fake":
+      return createFakeTranslationProvider();
+    default:
+      throw new Error(`Unknown translation provider: ${providerName}`);
+  }
+}
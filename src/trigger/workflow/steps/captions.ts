@@ -1,48 +1,97 @@
-import { logger, wait } from "@trigger.dev/sdk/v3";
-
-import { TranscriptionResult, CaptionsResult } from "../types/types";
-
-async function executeWorkflowStep<T>(
-  jobId: string,
-  stepName: string,
-  stepFn: () => Promise<T>
-): Promise<T> {
-  logger.log(`Executing ${stepName}`, { jobId });
-  try {
-    return await stepFn();
-  } catch (error) {
-    logger.error(`${stepName} failed`, { jobId, error });
-    throw error;
-  }
-}
+import { logger } from "@trigger.dev/sdk/v3";
 
-async function runCaptionAgent(
-  _transcription: TranscriptionResult,
-  targetLang: string
-): Promise<CaptionsResult> {
-  logger.log("Running caption agent", { targetLang });
+import {
+  CaptionStyle,
+  getSegmentationRules,
+  layoutCues,
+  segmentTranscript,
+  SubtitleCue,
+} from "@/shared/subtitles";
+
+import {
+  TranscriptionResult,
+  CaptionsResult,
+  LanguageWorkflowInput,
+  VideoMetadata,
+} from "../types/types";
+import { getTranslationProvider } from "../providers/translation";
+import { defineStep } from "../core/step";
 
-  await wait.for({ seconds: 3 });
+const CAPTIONS_TIMEOUT_MS = 5 * 60 * 1000;
 
+function buildCaptions(cues: SubtitleCue[], targetLang: string): CaptionsResult {
   return {
-    captions: [
-      {
-        start: 0,
-        end: 5,
-        text: "This is a sample caption.",
-        targetLang,
-      },
-    ],
+    captions: cues.map((cue) => ({ ...cue, targetLang })),
     format: "srt",
   };
 }
 
-export async function generateCaptions(
-  jobId: string,
-  transcription: TranscriptionResult,
+async function translateCues(
+  cues: SubtitleCue[],
+  sourceLang: string,
   targetLang: string
+): Promise<SubtitleCue[]> {
+  // Same-language captions are the transcript itself
+  if (cues.length === 0 || sourceLang === targetLang) return cues;
+
+  const provider = getTranslationProvider();
+  logger.log("Translating captions", { targetLang, provider: provider.name });
+
+  // Line breaks are re-laid out for the target language afterwards
+  const texts = cues.map((cue) => cue.text.replace(/\n/g, " "));
+  const translations = await provider.translate({ texts, sourceLang, targetLang });
+
+  // Word timings describe the spoken text, so translated cues cannot be highlighted
+  return cues.map((cue, index) => ({ ...cue, text: translations[index].trim(), words: undefined }));
+}
+
+// Karaoke styles fall back to plain captions without word timings; say so in the run log
+function warnIfKaraokeUnavailable(cues: SubtitleCue[], targetLang: string, captionStyle?: CaptionStyle): void {
+  if (!captionStyle?.karaoke || cues.some((cue) => cue.words)) return;
+
+  logger.warn("Karaoke highlighting needs word timings; rendering captions without it", {
+    targetLang,
+    reason: cues.length > 0 ? "translated captions have no word timings" : "no captions",
+  });
+}
+
+/**
+ * Cues are cut from the source transcript (so they follow the speech), then
+ * wrapped and timed with the target language's line length and reading speed.
+ */
+async function runCaptionAgent(
+  transcription: TranscriptionResult,
+  metadata: VideoMetadata,
+  targetLang: string,
+  captionStyle?: CaptionStyle
 ): Promise<CaptionsResult> {
-  return executeWorkflowStep(jobId, "caption-agent", async () => {
-    return await runCaptionAgent(transcription, targetLang);
+  const sourceCues = segmentTranscript(transcription, getSegmentationRules(transcription.language));
+  const translated = await translateCues(sourceCues, transcription.language, targetLang);
+  const cues = layoutCues(translated, getSegmentationRules(targetLang), metadata.fps);
+
+  logger.log("Segmented captions", {
+    targetLang,
+    segments: transcription.segments.length,
+    cues: cues.length,
+    wordTimed: cues.filter((cue) => cue.words).length,
   });
-}
\ No newline at end of file
+  warnIfKaraokeUnavailable(cues, targetLang, captionStyle);
+  return buildCaptions(cues, targetLang);
+}
+
+export const captionsStep = defineStep<"captions", LanguageWorkflowInput>({
+  name: "caption-agent",
+  output: "captions",
+  inputs: ["transcription", "metadata"],
+  errorCode: "TRANSLATION_FAILED",
+  progressWeight: 20,
+  timeoutMs: CAPTIONS_TIMEOUT_MS,
+  checkpoint: true,
+  run: ({ input, payload }) =>
+    runCaptionAgent(
+      input("transcription"),
+      input("metadata"),
+      payload.targetLang,
+      payload.captionStyle
+    ),
+});
@@ -0,0 +1,54 @@
+import { logger, tasks } from "@trigger.dev/sdk/v3";
+
+import type { RenderLanguageWorkflow } from "../../example";
+import { LanguageOutput, LanguageWorkflowInput } from "../types/types";
+import { fromSubtaskError } from "../core/errors";
+import { defineStep, StepContext } from "../core/step";
+
+/**
+ * Caption, render and upload every target language in parallel subtasks.
+ * Subtasks retry on their own and checkpoint their uploads, so a resumed job
+ * only redoes the languages that failed.
+ */
+async function renderLanguages({
+  payload,
+  input,
+  progressRange,
+}: StepContext): Promise<LanguageOutput[]> {
+  const items = payload.targetLangs.map((targetLang) => ({
+    payload: {
+      ...payload,
+      targetLang,
+      metadata: input("metadata"),
+      transcription: input("transcription"),
+      progressRange,
+    } satisfies LanguageWorkflowInput,
+    options: { tags: [payload.jobId, `lang:${targetLang}`] },
+  }));
+
+  const { runs } = await tasks.batchTriggerAndWait<typeof RenderLanguageWorkflow>(
+    "render-language",
+    items
+  );
+
+  return runs.map((run, index) => {
+    const targetLang = payload.targetLangs[index];
+    if (!run.ok) {
+      logger.error("Language subtask failed", { targetLang, runId: run.id, error: run.error });
+      // The subtask's own code (e.g. TRANSCRIPTION_FAILED) becomes the job's reason
+      throw fromSubtaskError(run.error, "LANGUAGE_RENDER_FAILED", `Rendering ${targetLang} captions failed`);
+    }
+    return run.output;
+  });
+}
+
+// Not retried here: each subtask has already used up its own retries
+export const localizeStep = defineStep({
+  name: "localize",
+  output: "languages",
+  inputs: ["metadata", "transcription"],
+  errorCode: "LANGUAGE_RENDER_FAILED",
+  progressWeight: 55,
+  checkpoint: true,
+  run: renderLanguages,
+});
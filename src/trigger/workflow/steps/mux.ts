@@ -0,0 +1,158 @@
+import { writeFileSync } from "fs";
+
+import { logger } from "@trigger.dev/sdk/v3";
+
+import { getLanguage, getLanguageName } from "@/shared/languages";
+import { SubtitleFormat, serializeSubtitles } from "@/shared/subtitles";
+
+import { LanguageOutput, RenderWorkflowInput, UploadResult, VideoMetadata } from "../types/types";
+import { defineStep, StepContext } from "../core/step";
+import { runFfmpeg } from "../media";
+
+import { verifyRenderedFile } from "./render";
+import { uploadOutputVideo } from "./upload";
+
+const MUX_TIMEOUT_MS = 5 * 60 * 1000;
+// Covers the ffmpeg run and the upload that follows it
+const MUX_STEP_TIMEOUT_MS = 15 * 60 * 1000;
+const WEBM_VIDEO_CODECS = ["vp8", "vp9", "av1"];
+const WEBM_AUDIO_CODECS = ["opus", "vorbis"];
+
+interface SoftContainer {
+  extension: string;
+  contentType: string;
+  // Sidecar file ffmpeg reads each track from, and the codec it is stored as
+  trackFormat: SubtitleFormat;
+  subtitleCodec: string;
+  extraArgs: string[];
+}
+
+const CONTAINERS: Record<"mp4" | "mkv" | "webm", SoftContainer> = {
+  mp4: {
+    extension: "mp4",
+    contentType: "video/mp4",
+    trackFormat: "srt",
+    subtitleCodec: "mov_text",
+    extraArgs: ["-movflags", "+faststart"],
+  },
+  mkv: {
+    extension: "mkv",
+    contentType: "video/x-matroska",
+    trackFormat: "ass",
+    subtitleCodec: "ass",
+    extraArgs: [],
+  },
+  webm: {
+    extension: "webm",
+    contentType: "video/webm",
+    trackFormat: "vtt",
+    subtitleCodec: "webvtt",
+    extraArgs: [],
+  },
+};
+
+/**
+ * Streams are copied, so the container must accept the source codecs: WebM
+ * sources stay WebM, other Matroska sources (and Vorbis audio, which MP4
+ * players rarely support) go to MKV, everything else to MP4.
+ */
+export function chooseSoftContainer(metadata: VideoMetadata): SoftContainer {
+  const videoCodec = metadata.videoCodec?.toLowerCase() ?? "";
+  const audioCodec = metadata.audioCodec?.toLowerCase() ?? "";
+
+  if (metadata.format.includes("matroska") || metadata.format.includes("webm")) {
+    const webmCompatible = WEBM_VIDEO_CODECS.includes(videoCodec) && WEBM_AUDIO_CODECS.includes(audioCodec);
+    return webmCompatible ? CONTAINERS.webm : CONTAINERS.mkv;
+  }
+  return audioCodec === "vorbis" ? CONTAINERS.mkv : CONTAINERS.mp4;
+}
+
+export function getSoftSubtitleVideoKey(jobId: string, extension: string): string {
+  return `processed/${jobId}/soft/final.${extension}`;
+}
+
+function buildTrackArgs(languages: LanguageOutput[]): string[] {
+  return languages.flatMap(({ targetLang }, index) => [
+    "-map", `${index + 1}:0`,
+    `-metadata:s:s:${index}`, `language=${getLanguage(targetLang)?.iso6392 ?? targetLang}`,
+    `-metadata:s:s:${index}`, `title=${getLanguageName(targetLang)}`,
+    `-disposition:s:${index}`, index === 0 ? "default" : "0",
+  ]);
+}
+
+function buildMuxArgs(
+  videoPath: string,
+  trackPaths: string[],
+  outputPath: string,
+  container: SoftContainer,
+  languages: LanguageOutput[],
+  sizeLimitArgs: string[]
+): string[] {
+  return [
+    "-y",
+    "-i", videoPath,
+    ...trackPaths.flatMap((trackPath) => ["-i", trackPath]),
+    "-map", "0:v",
+    "-map", "0:a?",
+    ...buildTrackArgs(languages),
+    "-c:v", "copy",
+    "-c:a", "copy",
+    "-c:s", container.subtitleCodec,
+    ...container.extraArgs,
+    ...sizeLimitArgs,
+    outputPath,
+  ];
+}
+
+// Copy the original streams and add one subtitle track per target language
+async function muxSoftSubtitles({
+  jobId,
+  payload,
+  input,
+  workspace,
+  signal,
+  reportProgress,
+}: StepContext<RenderWorkflowInput>): Promise<UploadResult> {
+  const { filePath: videoPath } = input("download");
+  const metadata = input("metadata");
+  const languages = input("languages");
+  const container = chooseSoftContainer(metadata);
+  const outputPath = workspace.path(`soft.${container.extension}`);
+
+  const trackPaths = languages.map(({ targetLang, captions }) => {
+    const trackPath = workspace.path(`track-${targetLang}.${container.trackFormat}`);
+    writeFileSync(trackPath, serializeSubtitles(container.trackFormat, captions.captions, {
+      width: metadata.width,
+      height: metadata.height,
+      fontName: getLanguage(targetLang)?.font,
+      language: targetLang,
+      fps: metadata.fps,
+      style: payload.captionStyle,
+    }));
+    return trackPath;
+  });
+
+  await runFfmpeg(
+    buildMuxArgs(videoPath, trackPaths, outputPath, container, languages, workspace.ffmpegSizeLimitArgs()),
+    { timeoutMs: MUX_TIMEOUT_MS, signal, durationSeconds: metadata.duration, onProgress: reportProgress }
+  );
+  workspace.assertWithinQuota();
+
+  const result = await verifyRenderedFile(outputPath);
+  logger.log("Muxed soft subtitles", { tracks: languages.map(({ targetLang }) => targetLang), result });
+  return uploadOutputVideo(getSoftSubtitleVideoKey(jobId, container.extension), result, container.contentType);
+}
+
+// No re-encode, so this is quick even on CPU-only workers
+export const muxStep = defineStep<"softSubtitles", RenderWorkflowInput>({
+  name: "mux",
+  output: "softSubtitles",
+  inputs: ["download", "metadata", "languages"],
+  errorCode: "RENDER_FAILED",
+  progressWeight: 10,
+  timeoutMs: MUX_STEP_TIMEOUT_MS,
+  retry: { maxAttempts: 2, delayMs: 2000 },
+  checkpoint: true,
+  enabled: (payload) => payload.renderMode === "soft" || payload.renderMode === "both",
+  run: muxSoftSubtitles,
+});
@@ -1,45 +1,119 @@
-import { logger, wait } from "@trigger.dev/sdk/v3";
+import { existsSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
 
-import { CaptionsResult, RenderResult, VideoMetadata } from "../types/types";
+import { logger } from "@trigger.dev/sdk/v3";
 
-async function executeWorkflowStep<T>(
-  jobId: string,
-  stepName: string,
-  stepFn: () => Promise<T>
-): Promise<T> {
-  logger.log(`Executing ${stepName}`, { jobId });
-  try {
-    return await stepFn();
-  } catch (error) {
-    logger.error(`${stepName} failed`, { jobId, error });
-    throw error;
+import { getLanguage } from "@/shared/languages";
+import { serializeAss } from "@/shared/subtitles";
+
+import { LanguageWorkflowInput, RenderResult, VideoMetadata } from "../types/types";
+import { defineStep, StepContext } from "../core/step";
+import { probeDuration, runFfmpeg } from "../media";
+
+const FONTS_DIR = join(process.cwd(), "public", "fonts");
+const RENDER_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Escape a path for use as a value inside an ffmpeg filtergraph option
+function escapeFilterPath(filePath: string): string {
+  return filePath.replace(/\\/g, "\\\\\\\\").replace(/'/g, "\\\\\\'").replace(/:/g, "\\\\:").replace(/,/g, "\\,");
+}
+
+// libx264 with yuv420p needs even frame dimensions
+function toEven(value: number): number {
+  return Math.max(2, Math.floor(value / 2) * 2);
+}
+
+function buildFfmpegArgs(
+  videoPath: string,
+  subtitlePath: string,
+  outputPath: string,
+  metadata: VideoMetadata,
+  sizeLimitArgs: string[]
+): string[] {
+  const subtitlesFilter = `subtitles=${escapeFilterPath(subtitlePath)}:fontsdir=${escapeFilterPath(FONTS_DIR)}`;
+  const frameRateArgs = metadata.fps ? ["-r", String(metadata.fps)] : [];
+
+  return [
+    "-y",
+    "-i", videoPath,
+    "-vf", `${subtitlesFilter},scale=${toEven(metadata.width)}:${toEven(metadata.height)}`,
+    ...frameRateArgs,
+    "-c:v", "libx264",
+    "-preset", "veryfast",
+    "-crf", "20",
+    "-pix_fmt", "yuv420p",
+    "-c:a", "aac",
+    "-b:a", "128k",
+    "-movflags", "+faststart",
+    ...sizeLimitArgs,
+    outputPath,
+  ];
+}
+
+export async function verifyRenderedFile(outputPath: string): Promise<RenderResult> {
+  if (!existsSync(outputPath)) {
+    throw new Error(`Rendered file was not created: ${outputPath}`);
+  }
+
+  const size = statSync(outputPath).size;
+  if (size === 0) {
+    throw new Error(`Rendered file is empty: ${outputPath}`);
   }
+
+  return { outputPath, size, duration: await probeDuration(outputPath) };
 }
 
-async function renderVideo(
-  _originalVideo: Buffer,
-  captions: CaptionsResult,
-  metadata: VideoMetadata
-): Promise<RenderResult> {
-  logger.log("Rendering video with captions", {
-    captionsCount: captions.captions.length,
-    videoDuration: metadata.duration,
-  });
-
-  await wait.for({ seconds: 10 });
-
-  return {
-    outputPath: `/tmp/rendered_${Date.now()}.mp4`,
-  };
+async function renderVideo({
+  payload,
+  input,
+  workspace,
+  signal,
+  reportProgress,
+}: StepContext<LanguageWorkflowInput>): Promise<RenderResult> {
+  const { filePath: videoPath } = input("download");
+  const metadata = input("metadata");
+  const { captions } = input("captions");
+  const subtitlePath = workspace.path("captions.ass");
+  const outputPath = workspace.path("rendered.mp4");
+
+  try {
+    writeFileSync(subtitlePath, serializeAss(captions, {
+      width: metadata.width,
+      height: metadata.height,
+      fontName: getLanguage(payload.targetLang)?.font,
+      style: payload.captionStyle,
+    }));
+
+    const args = buildFfmpegArgs(
+      videoPath, subtitlePath, outputPath, metadata, workspace.ffmpegSizeLimitArgs()
+    );
+    await runFfmpeg(args, {
+      timeoutMs: RENDER_TIMEOUT_MS,
+      signal,
+      durationSeconds: metadata.duration,
+      onProgress: reportProgress,
+    });
+    workspace.assertWithinQuota();
+
+    const result = await verifyRenderedFile(outputPath);
+    logger.log("Rendered captioned video", { captionsCount: captions.length, result });
+    return result;
+  } finally {
+    if (existsSync(subtitlePath)) {
+      try { unlinkSync(subtitlePath); }
+      catch (cleanupError) { logger.warn("Failed to cleanup subtitle file", { cleanupError }); }
+    }
+  }
 }
 
-export async function renderFinalVideo(
-  jobId: string,
-  videoBuffer: Buffer,
-  captions: CaptionsResult,
-  metadata: VideoMetadata
-): Promise<RenderResult> {
-  return executeWorkflowStep(jobId, "render", async () => {
-    return await renderVideo(videoBuffer, captions, metadata);
-  });
-}
\ No newline at end of file
+// ffmpeg enforces RENDER_TIMEOUT_MS itself; the step timeout is a backstop
+export const renderStep = defineStep<"render", LanguageWorkflowInput>({
+  name: "render",
+  output: "render",
+  inputs: ["download", "metadata", "captions"],
+  errorCode: "RENDER_FAILED",
+  progressWeight: 25,
+  timeoutMs: RENDER_TIMEOUT_MS + 60 * 1000,
+  enabled: (payload) => payload.renderMode !== "soft",
+  run: renderVideo,
+});
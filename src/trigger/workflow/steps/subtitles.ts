@@ -0,0 +1,58 @@
+import { logger } from "@trigger.dev/sdk/v3";
+
+import { getLanguage } from "@/shared/languages";
+import { getR2Storage } from "@/shared/storage";
+import {
+  getSubtitleFileKey,
+  serializeSubtitles,
+  SUBTITLE_FORMAT_DEFINITIONS,
+  SUBTITLE_FORMATS,
+} from "@/shared/subtitles";
+
+import { LanguageWorkflowInput, SubtitleFilesResult } from "../types/types";
+import { defineStep, StepContext } from "../core/step";
+
+const SUBTITLES_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Store every export format next to the video so downloads are a plain read
+async function uploadSubtitleFiles({
+  jobId,
+  payload,
+  input,
+}: StepContext<LanguageWorkflowInput>): Promise<SubtitleFilesResult> {
+  const { captions } = input("captions");
+  const metadata = input("metadata");
+  const options = {
+    width: metadata.width,
+    height: metadata.height,
+    fontName: getLanguage(payload.targetLang)?.font,
+    language: payload.targetLang,
+    fps: metadata.fps,
+    style: payload.captionStyle,
+  };
+  const r2Storage = getR2Storage();
+
+  const files = await Promise.all(SUBTITLE_FORMATS.map(async (format) => {
+    const key = getSubtitleFileKey(jobId, payload.targetLang, format);
+    const body = serializeSubtitles(format, captions, options);
+    await r2Storage.putObjectToR2(key, body, SUBTITLE_FORMAT_DEFINITIONS[format].contentType);
+    return { format, key };
+  }));
+
+  logger.log("Uploaded subtitle files", { targetLang: payload.targetLang, files });
+  return { files };
+}
+
+// The rendered video is the main output, so a failed export doesn't fail the job
+export const subtitlesStep = defineStep<"subtitles", LanguageWorkflowInput>({
+  name: "subtitles",
+  output: "subtitles",
+  inputs: ["captions", "metadata"],
+  errorCode: "UPLOAD_FAILED",
+  progressWeight: 5,
+  timeoutMs: SUBTITLES_TIMEOUT_MS,
+  retry: { maxAttempts: 3, delayMs: 2000 },
+  checkpoint: true,
+  optional: true,
+  run: uploadSubtitleFiles,
+});
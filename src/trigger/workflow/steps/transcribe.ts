@@ -1,80 +1,45 @@
-import { execSync } from "child_process";
-import { existsSync, unlinkSync, createReadStream } from "fs";
+import { existsSync, unlinkSync } from "fs";
 
-import { OpenAI } from "openai";
 import { logger } from "@trigger.dev/sdk/v3";
 
-import { TranscriptionResult, TranscriptionErrorCodes } from "../types/types";
-
-interface WhisperTranscription {
-  language: string;
-  duration: number;
-  segments?: Array<{
-    start: number;
-    end: number;
-    text: string;
-  }>;
-  words?: Array<{
-    word: string;
-    start: number;
-    end: number;
-    probability?: number;
-  }>;
-}
-
-async function executeWorkflowStep<T>(
-  jobId: string,
-  stepName: string,
-  stepFn: () => Promise<T>
-): Promise<T> {
-  logger.log(`Executing ${stepName}`, { jobId });
-  try {
-    return await stepFn();
-  } catch (error) {
-    logger.error(`${stepName} failed`, { jobId, error });
-    throw error;
-  }
-}
-
-async function emitSttStart(jobId: string, filePath: string): Promise<void> {
-  logger.log("STT started", { jobId, filePath });
-}
+import { isSupportedSourceLanguage, normalizeLanguageCode } from "@/shared/languages";
 
-async function emitSttDone(
-  jobId: string,
-  result: TranscriptionResult
-): Promise<void> {
-  logger.log("STT completed", { jobId, result });
-}
-
-async function emitSttError(
-  jobId: string,
-  errorCode: keyof TranscriptionErrorCodes,
-  error: string
-): Promise<void> {
-  logger.error("STT failed", { jobId, errorCode, error });
-}
+import { TranscriptionResult, TranscriptionErrorCodes } from "../types/types";
+import { getSttProvider, SttProvider } from "../providers/stt";
+import { getErrorMessage, isRetryableError, WorkflowError } from "../core/errors";
+import { defineStep, StepContext } from "../core/step";
+import { JobWorkspace } from "../core/workspace";
+import { runFfmpeg } from "../media";
 
-class TranscriptionError extends Error {
-  readonly code: keyof TranscriptionErrorCodes;
+const AUDIO_EXTRACTION_TIMEOUT_MS = 2 * 60 * 1000;
+const TRANSCRIBE_TIMEOUT_MS = 20 * 60 * 1000;
 
+// Audio in the wrong language won't change on a retry; API failures might
+class TranscriptionError extends WorkflowError {
   constructor(
     code: keyof TranscriptionErrorCodes,
-    message: string
+    message: string,
+    retryable: boolean = code !== "UNSUPPORTED_LANGUAGE"
   ) {
-    super(message);
-    this.code = code;
+    super(code, message, retryable);
     this.name = "TranscriptionError";
   }
 }
 
-function extractAudioFromVideo(videoPath: string, outputPath: string): void {
+async function extractAudioFromVideo(
+  videoPath: string,
+  outputPath: string,
+  workspace: JobWorkspace,
+  signal?: AbortSignal
+): Promise<void> {
   try {
-    execSync(`ffmpeg -i "${videoPath}" -vn -acodec pcm_s16le -ar 16000 -ac 1 "${outputPath}" -y`, {
-      stdio: "pipe"
-    });
+    await runFfmpeg(
+      ["-y", "-i", videoPath, "-vn", "-acodec", "pcm_s16le", "-ar", "16000", "-ac", "1", ...workspace.ffmpegSizeLimitArgs(), outputPath],
+      { timeoutMs: AUDIO_EXTRACTION_TIMEOUT_MS, signal }
+    );
+    workspace.assertWithinQuota();
   } catch (error) {
-    throw new TranscriptionError("AUDIO_EXTRACTION_FAILED", `Failed to extract audio: ${error}`);
+    throw new TranscriptionError("AUDIO_EXTRACTION_FAILED", `Failed to extract audio: ${getErrorMessage(error)}`, isRetryableError(error));
   }
 }
 
@@ -83,83 +48,54 @@ function calculateWPM(words: Array<{ word: string; start: number; end: number }>
   return Math.round((words.length / duration) * 60);
 }
 
-function validateLanguage(language: string): void {
-  const supportedLanguages = ["en", "english"];
-  if (!supportedLanguages.includes(language.toLowerCase())) {
-    throw new TranscriptionError("NOT_ENGLISH", `Detected language '${language}' is not English`);
+// Returns the detected language as an ISO 639-1 code
+function validateTranscriptionLanguage(language: string): string {
+  const code = normalizeLanguageCode(language);
+  if (!isSupportedSourceLanguage(code)) {
+    throw new TranscriptionError("UNSUPPORTED_LANGUAGE", `Detected language '${language}' is not supported`);
   }
+  return code;
 }
 
-function createOpenAIClient(): OpenAI {
-  if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY environment variable is required");
-  return new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-}
-
-function validateTranscriptionLanguage(language: string): void {
-  if (language !== "en" && language !== "english") validateLanguage(language);
-}
-
-function processTranscriptionData(transcription: WhisperTranscription): {
-  segments: Array<{ start: number; end: number; text: string }>;
-  words: Array<{ word: string; start: number; end: number; confidence?: number }>;
-} {
-  const segments = transcription.segments?.map(segment => ({
-    start: segment.start,
-    end: segment.end,
-    text: segment.text,
-  })) || [];
-
-  const words = transcription.words?.map(word => ({
-    word: word.word,
-    start: word.start,
-    end: word.end,
-    confidence: word.probability,
-  })) || [];
-
-  return { segments, words };
-}
-
-async function callWhisperAPI(openai: OpenAI, audioPath: string): Promise<WhisperTranscription> {
-  const audioFile = createReadStream(audioPath);
-
-  return await openai.audio.transcriptions.create({
-    file: audioFile,
-    model: "whisper-1",
-    response_format: "verbose_json",
-    timestamp_granularities: ["word"],
-  });
-}
-
-async function transcribeWithWhisper(audioPath: string): Promise<TranscriptionResult> {
-  const openai = createOpenAIClient();
-
+async function transcribeAudio(
+  provider: SttProvider,
+  audioPath: string,
+  languageHint?: string,
+  signal?: AbortSignal
+): Promise<TranscriptionResult> {
   try {
-    const transcription = await callWhisperAPI(openai, audioPath);
-    validateTranscriptionLanguage(transcription.language);
-    const { segments, words } = processTranscriptionData(transcription);
-    const wpm = calculateWPM(words, transcription.duration);
+    const transcription = await provider.transcribe({ audioPath, language: languageHint, signal });
+    const language = validateTranscriptionLanguage(transcription.language);
+    const { segments, words, duration } = transcription;
 
-    return { segments, language: transcription.language, wpm, words };
+    return { segments, language, wpm: calculateWPM(words, duration), words };
   } catch (error) {
     if (error instanceof TranscriptionError) throw error;
-    throw new TranscriptionError("TRANSCRIPTION_FAILED", `Whisper API failed: ${error instanceof Error ? error.message : String(error)}`);
+    throw new TranscriptionError(
+      "TRANSCRIPTION_FAILED",
+      `${provider.name} transcription failed: ${getErrorMessage(error)}`,
+      isRetryableError(error)
+    );
   }
 }
 
-async function transcribeVideoFile(filePath: string, jobId: string): Promise<TranscriptionResult> {
+async function transcribeVideoFile(
+  filePath: string,
+  { payload, workspace, signal }: StepContext
+): Promise<TranscriptionResult> {
+  const provider = getSttProvider(payload.sttProvider);
   if (!existsSync(filePath)) throw new Error(`Video file not found: ${filePath}`);
-  const audioPath = filePath.replace(/\.[^/.]+$/, ".wav");
+  const audioPath = workspace.path("audio.wav");
 
   try {
-    await emitSttStart(jobId, filePath);
-    extractAudioFromVideo(filePath, audioPath);
-    const result = await transcribeWithWhisper(audioPath);
-    await emitSttDone(jobId, result);
+    await extractAudioFromVideo(filePath, audioPath, workspace, signal);
+    const result = await transcribeAudio(provider, audioPath, payload.sourceLang, signal);
+    logger.log("Transcribed audio", {
+      provider: provider.name,
+      language: result.language,
+      segments: result.segments.length,
+    });
     return result;
-  } catch (error) {
-    if (error instanceof TranscriptionError) await emitSttError(jobId, error.code, error.message);
-    else await emitSttError(jobId, "TRANSCRIPTION_FAILED", error instanceof Error ? error.message : String(error));
-    throw error;
   } finally {
     if (existsSync(audioPath)) {
       try { unlinkSync(audioPath); }
@@ -168,11 +104,13 @@ async function transcribeVideoFile(filePath: string, jobId: string): Promise<Tra
   }
 }
 
-export async function transcribeVideo(
-  jobId: string,
-  filePath: string
-): Promise<TranscriptionResult> {
-  return executeWorkflowStep(jobId, "transcribe", async () => {
-    return await transcribeVideoFile(filePath, jobId);
-  });
-}
\ No newline at end of file
+export const transcribeStep = defineStep({
+  name: "transcribe",
+  output: "transcription",
+  inputs: ["download"],
+  errorCode: "TRANSCRIPTION_FAILED",
+  progressWeight: 30,
+  timeoutMs: TRANSCRIBE_TIMEOUT_MS,
+  checkpoint: true,
+  run: (context) => transcribeVideoFile(context.input("download").filePath, context),
+});
@@ -1,40 +1,80 @@
-import { logger, wait } from "@trigger.dev/sdk/v3";
-
-import { getR2Storage } from "@/shared/storage";
-
-async function executeWorkflowStep<T>(
-  jobId: string,
-  stepName: string,
-  stepFn: () => Promise<T>
-): Promise<T> {
-  logger.log(`Executing ${stepName}`, { jobId });
-  try {
-    return await stepFn();
-  } catch (error) {
-    logger.error(`${stepName} failed`, { jobId, error });
-    throw error;
+import { logger } from "@trigger.dev/sdk/v3";
+
+import { getR2Storage, R2Storage } from "@/shared/storage";
+
+import { LanguageWorkflowInput, RenderResult, UploadResult } from "../types/types";
+import { defineStep } from "../core/step";
+
+const FINAL_CONTENT_TYPE = "video/mp4";
+const DEFAULT_PRESIGNED_TTL_SECONDS = 24 * 60 * 60;
+// S3-compatible presigned URLs cannot outlive seven days
+const MAX_PRESIGNED_TTL_SECONDS = 7 * 24 * 60 * 60;
+const UPLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+function getPresignedTtlSeconds(): number {
+  const configured = parseInt(process.env.R2_PRESIGNED_URL_TTL_SECONDS || "", 10);
+  if (!Number.isFinite(configured) || configured <= 0) {
+    return DEFAULT_PRESIGNED_TTL_SECONDS;
   }
+  return Math.min(configured, MAX_PRESIGNED_TTL_SECONDS);
 }
 
-async function uploadFinalVideo(
-  outputPath: string,
-  jobId: string
-): Promise<string> {
-  logger.log("Uploading final video", { outputPath, jobId });
+/**
+ * R2_OUTPUT_URL_MODE picks "public" or "presigned" URLs for rendered videos.
+ * Without it, public URLs are used only when CLOUDFLARE_R2_PUBLIC_URL is set.
+ */
+async function resolveOutputUrl(r2Storage: R2Storage, key: string): Promise<string> {
+  const mode = process.env.R2_OUTPUT_URL_MODE || (r2Storage.hasPublicUrl ? "public" : "presigned");
+
+  if (mode === "public") {
+    return r2Storage.getPublicUrl(key);
+  }
+  return r2Storage.getSignedUrl(key, getPresignedTtlSeconds());
+}
 
-  await wait.for({ seconds: 2 });
+async function verifyUploadedObject(
+  r2Storage: R2Storage,
+  key: string,
+  expectedSize: number
+): Promise<void> {
+  const metadata = await r2Storage.getR2FileMetadata(key);
 
+  if (metadata.size !== expectedSize) {
+    throw new Error(
+      `Upload size mismatch: expected ${expectedSize} bytes, got ${metadata.size} bytes`
+    );
+  }
+}
+
+export function getFinalVideoKey(jobId: string, targetLang: string): string {
+  return `processed/${jobId}/${targetLang}/final.mp4`;
+}
+
+// Upload a finished video, check it landed intact and resolve its output URL
+export async function uploadOutputVideo(
+  key: string,
+  renderResult: RenderResult,
+  contentType: string = FINAL_CONTENT_TYPE
+): Promise<UploadResult> {
   const r2Storage = getR2Storage();
-  const finalKey = `processed/${jobId}/final.mp4`;
 
-  return r2Storage.getPublicUrl(finalKey);
+  await r2Storage.uploadFileToR2(key, renderResult.outputPath, contentType);
+  await verifyUploadedObject(r2Storage, key, renderResult.size);
+  logger.log("Uploaded final video", { key, size: renderResult.size });
+
+  return { key, url: await resolveOutputUrl(r2Storage, key) };
 }
 
-export async function uploadProcessedVideo(
-  jobId: string,
-  outputPath: string
-): Promise<string> {
-  return executeWorkflowStep(jobId, "upload", async () => {
-    return await uploadFinalVideo(outputPath, jobId);
-  });
-}
\ No newline at end of file
+export const uploadStep = defineStep<"upload", LanguageWorkflowInput>({
+  name: "upload",
+  output: "upload",
+  inputs: ["render"],
+  errorCode: "UPLOAD_FAILED",
+  progressWeight: 10,
+  timeoutMs: UPLOAD_TIMEOUT_MS,
+  retry: { maxAttempts: 3, delayMs: 2000 },
+  checkpoint: true,
+  enabled: (payload) => payload.renderMode !== "soft",
+  run: ({ jobId, payload, input }) =>
+    uploadOutputVideo(getFinalVideoKey(jobId, payload.targetLang), input("render")),
+});
@@ -1,7 +1,28 @@
+import type { JobOutput, RenderMode } from "@/shared/jobs";
+import type { CaptionStyle, SubtitleCue } from "@/shared/subtitles";
+
 export interface RenderWorkflowInput {
   jobId: string;
   r2Key: string;
+  // Each language is captioned, rendered and uploaded by its own subtask
+  targetLangs: string[];
+  // ISO 639-1 code of the spoken language; detected when omitted
+  sourceLang?: string;
+  // Overrides the worker's STT_PROVIDER for this job
+  sttProvider?: string;
+  // Defaults to "burn"
+  renderMode?: RenderMode;
+  // Look of burned-in and ASS captions; the "clean" preset when omitted
+  captionStyle?: CaptionStyle;
+}
+
+// Payload of the per-language subtask; it reuses the parent's probe and transcript
+export interface LanguageWorkflowInput extends RenderWorkflowInput {
   targetLang: string;
+  metadata: VideoMetadata;
+  transcription: TranscriptionResult;
+  // Slice of overall job progress (0-100) the subtask reports within
+  progressRange: [number, number];
 }
 
 export interface VideoMetadata {
@@ -20,6 +41,8 @@ export interface ProbeErrorCodes {
   TOO_LONG: "too_long";
   NO_AUDIO: "no_audio";
   UNSUPPORTED: "unsupported";
+  PROBE_FAILED: "probe_failed";
+  INVALID_MEDIA: "invalid_media";
 }
 
 export interface TranscriptionResult {
@@ -39,28 +62,71 @@ export interface TranscriptionResult {
 }
 
 export interface TranscriptionErrorCodes {
-  NOT_ENGLISH: "not_english";
+  UNSUPPORTED_LANGUAGE: "unsupported_language";
   TRANSCRIPTION_FAILED: "transcription_failed";
   AUDIO_EXTRACTION_FAILED: "audio_extraction_failed";
 }
 
+export interface TranslationErrorCodes {
+  TRANSLATION_FAILED: "translation_failed";
+  INVALID_RESPONSE: "invalid_response";
+}
+
 export interface CaptionsResult {
-  captions: Array<{
-    start: number;
-    end: number;
-    text: string;
-    targetLang: string;
-  }>;
+  captions: Array<SubtitleCue & { targetLang: string }>;
   format: string;
 }
 
 export interface RenderResult {
   outputPath: string;
+  size: number;
+  duration: number;
+}
+
+export interface DownloadResult {
+  filePath: string;
+  fileSize: number;
+}
+
+export interface UploadResult {
+  key: string;
+  url: string;
 }
 
+export interface SubtitleFilesResult {
+  files: Array<{
+    format: string;
+    key: string;
+  }>;
+}
+
+// The burned-in video is missing in soft mode, where only the captions are used
+export interface LanguageOutput extends Partial<UploadResult> {
+  targetLang: string;
+  captions: CaptionsResult;
+}
+
+// What each workflow step produces, keyed by output name
+export interface WorkflowOutputs {
+  download: DownloadResult;
+  metadata: VideoMetadata;
+  transcription: TranscriptionResult;
+  captions: CaptionsResult;
+  render: RenderResult;
+  upload: UploadResult;
+  subtitles: SubtitleFilesResult;
+  // Original video with a subtitle track per target language
+  softSubtitles: UploadResult;
+  languages: LanguageOutput[];
+}
+
+export type WorkflowOutputName = keyof WorkflowOutputs;
+
 export interface WorkflowResult {
   success: boolean;
   jobId: string;
+  // Output for the first target language, kept for single-language clients
   finalUrl: string;
+  outputs: JobOutput[];
   metadata: VideoMetadata;
 }
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { additionalFiles, ffmpeg } from "@trigger.dev/build/extensions/core";
 import { defineConfig } from "@trigger.dev/sdk/v3";
 
 export default defineConfig({
@@ -19,4 +20,11 @@ export default defineConfig({
     },
   },
   dirs: ["./src/trigger"],
+  build: {
+    // ffmpeg/ffprobe for probing and burn-in, fonts for libass
+    extensions: [
+      ffmpeg(),
+      additionalFiles({ files: ["./public/fonts/*.ttf"] }),
+    ],
+  },
 });